@@ -1,4 +1,20 @@
-import { isValidUrl, normalizeUrl, extractUrls } from './utils/urlChecker';
+import { containsOnlyUrls, extractUrls, extractUrlsWithFormats, ExtractOptions, SmartPattern } from './utils/urlChecker';
+import { stripTrackingParams, getCanonicalUrl, DEFAULT_TRACKING_PARAMS } from './utils/urlCleaner';
+import { unwrapRedirect } from './utils/redirectUnwrapper';
+import { applyRewriteRules, RewriteRule } from './utils/rewriteRules';
+import { checkExclusion, ExclusionMode } from './utils/exclusionRules';
+import { resolveSiteSettings, isSiteOverride, sameSiteOverrides, SiteOverride } from './utils/siteOverrides';
+import { supportsTabGroups, formatGroupTitle, isTabGroupColor } from './utils/tabGroups';
+import {
+  getContainersAPI,
+  getContainers,
+  getTabContainer,
+  findContainerRule,
+  isContainerRule,
+  ContainerRule,
+  PRIVATE_COOKIE_STORE_ID
+} from './utils/containers';
+import { HistoryEntry, OpenTrigger, OpenOutcome, HISTORY_STORAGE_KEY, pruneHistory, isHistoryEntry } from './utils/openHistory';
 import { browserAPI, isFirefox, safeBrowserCall, getStorage, setStorage } from './utils/browserAPI';
 
 // Menu item constants
@@ -6,39 +22,260 @@ const MENU_ID = 'openLinkInNewTab';
 const MENU_TITLE = '🔗 Open Link in New Tab';
 const MULTI_URL_MENU_ID = 'openMultipleUrls';
 const MULTI_URL_MENU_TITLE = '🔗🔗 Open Multiple URLs';
+const REFANG_MENU_ID = 'refangAndOpen';
+const REFANG_MENU_TITLE = '🛡️ Refang and Open';
+const SELECTED_LINKS_MENU_ID = 'openLinksInSelection';
+const SELECTED_LINKS_MENU_TITLE = '🔗📄 Open Links in Selection';
+// Firefox only: one submenu entry per container, with ids like openInContainer:firefox-container-1
+const CONTAINER_MENU_ID = 'openInContainer';
+const CONTAINER_MENU_TITLE = '📦 Open in Container…';
+const UNDO_MENU_ID = 'undoLastOpen';
+const UNDO_MENU_TITLE = '↩️ Undo Last Open';
+
+// Keyboard shortcut names, as declared under "commands" in the manifest
+const OPEN_SELECTION_COMMAND = 'open-selection';
+const OPEN_FOCUSED_LINK_COMMAND = 'open-focused-link';
+const OPEN_CLIPBOARD_COMMAND = 'open-clipboard';
+const TOGGLE_EXTENSION_COMMAND = 'toggle-extension';
+const TOGGLE_DIRECT_OPEN_COMMAND = 'toggle-direct-link-open';
+const UNDO_COMMAND = 'undo-last-open';
+
+// Chrome reads the clipboard in this page, since its service worker has no DOM
+const OFFSCREEN_DOCUMENT_URL = 'offscreen/offscreen.html';
+// Optional permission for reading the clipboard, asked for the first time the clipboard shortcut is used
+const CLIPBOARD_PERMISSION = 'clipboardRead';
+// How long the badge shows the state a shortcut switched to
+const BADGE_FLASH_DURATION = 1500; // ms
+// URLs listed as address bar suggestions below the summary
+const OMNIBOX_PREVIEW_COUNT = 5;
+// Pause in typing before the address bar preview is worked out
+const OMNIBOX_PREVIEW_DELAY = 250; // ms
+
+// Where new tabs are placed: where the browser decides, right after the source tab,
+// after the last tab opened from the source tab, at the end of the strip, in a new window per batch, or pinned
+type TabPlacement = 'default' | 'adjacent' | 'afterLastOpened' | 'end' | 'newWindow' | 'pinned';
+
+// What to do when a URL is already open in a tab: open it again anyway, switch to that tab, reload it, or skip the URL
+type DuplicateTabAction = 'open' | 'focus' | 'reload' | 'skip';
 
 // Extension settings with defaults
 const settings: {
   enableExtension: boolean;
   activateTabs: boolean;
+  tabPlacement: TabPlacement;
+  duplicateTabs: DuplicateTabAction;
+  groupBatches: boolean;
+  groupTitleTemplate: string;
+  groupColor: string;
+  groupCollapsed: boolean;
+  joinSourceGroup: boolean;
   supportMultipleUrls: boolean;
   excludedDomains: string[];
+  exclusionMode: ExclusionMode;
+  disabledPages: string[];
+  siteOverrides: SiteOverride[];
+  containerRules: ContainerRule[];
+  confirmThreshold: number;
+  maxBatchSize: number;
+  openDelay: number;
+  maxLoadingTabs: number;
+  lazyBatches: boolean;
+  lazyAfter: number;
+  keepHistory: boolean;
+  historyMaxEntries: number;
+  historyMaxDays: number;
+  rewriteRules: RewriteRule[];
+  smartPatterns: SmartPattern[];
   directLinkOpen: boolean;
+  stripTrackingParams: boolean;
+  trackingParams: string[];
+  unwrapRedirects: boolean;
+  redirectPatterns: string[];
   // Advanced settings
   debounceThreshold: number;
   clickDistanceThreshold: number;
   clickTimeThreshold: number;
   debugMode: boolean;
   urlPatternType: string;
+  resolveRelativeUrls: boolean;
 } = {
   enableExtension: true,
   activateTabs: false,
+  tabPlacement: 'default',
+  duplicateTabs: 'open',
+  groupBatches: false,
+  groupTitleTemplate: '{title}',
+  groupColor: 'grey',
+  groupCollapsed: false,
+  joinSourceGroup: false,
   supportMultipleUrls: true,
   excludedDomains: [],
+  exclusionMode: 'exclude',
+  disabledPages: [],
+  siteOverrides: [],
+  containerRules: [],
+  // Large batch safeguards (0 turns the confirmation, cap and loading limit off)
+  confirmThreshold: 10,
+  maxBatchSize: 100,
+  openDelay: 100,
+  maxLoadingTabs: 5,
+  // Background tabs of a batch past the first lazyAfter only load once they are focused
+  lazyBatches: false,
+  lazyAfter: 5,
+  // History of opened URLs, kept in local storage (0 turns a retention limit off)
+  keepHistory: true,
+  historyMaxEntries: 500,
+  historyMaxDays: 30,
+  rewriteRules: [],
+  smartPatterns: [],
   directLinkOpen: true,
+  stripTrackingParams: true,
+  trackingParams: DEFAULT_TRACKING_PARAMS,
+  unwrapRedirects: true,
+  redirectPatterns: [],
   // Advanced settings with defaults
   debounceThreshold: 500,
   clickDistanceThreshold: 5,
   clickTimeThreshold: 300,
   debugMode: false,
-  urlPatternType: 'standard'
+  urlPatternType: 'standard',
+  resolveRelativeUrls: false
 };
 
+// Settings in effect on a particular page, with any site override applied
+type SiteBehavior = typeof settings;
+
+/**
+ * How and where a queued URL should open
+ */
+interface TabTarget {
+  // What opened the URL, for the history
+  trigger: OpenTrigger;
+  // Whether the tab is activated, since that can differ per site
+  active: boolean;
+  // Tab the URL came from, used for placement and as the new tab's opener
+  sourceTabId?: number;
+  // Address and title of the source tab when the URL was queued, for the history
+  sourceUrl?: string;
+  sourceTitle?: string;
+  // Container of the source tab (Firefox), or the one picked from the context menu
+  cookieStoreId?: string;
+  // A picked container wins over container rules
+  containerPicked?: boolean;
+  // URLs opened together share a batch, so they keep their order and share a window
+  batchId: number;
+  // Number of URLs in the batch
+  batchSize: number;
+  // Tab group to put the tab in: a new group for the batch, or the source tab's group
+  group?: 'batch' | 'source';
+}
+
+// Where a batch's tabs have gone so far
+interface BatchPlacement {
+  lastTabId?: number;
+  windowId?: number;
+  groupId?: number;
+  // Number of the batch's tabs opened so far
+  opened?: number;
+}
+
+/**
+ * A URL waiting in the opening queue
+ */
+interface QueueEntry {
+  url: string;
+  target: TabTarget;
+}
+
+/**
+ * A batch of tabs opened together, remembered so it can be undone
+ */
+interface OpenedBatch {
+  batchId: number;
+  tabIds: number[];
+}
+
+/**
+ * The opening queue as saved for a restarted service worker
+ */
+interface SavedQueue {
+  entries: QueueEntry[];
+  // The entry whose tab was being created when the queue was saved
+  inFlight: QueueEntry | null;
+  // The tab created for the entry in flight, once there is one
+  inFlightTabId?: number | null;
+  batches: [number, BatchPlacement][];
+  recentBatches?: OpenedBatch[];
+}
+
 // Queue for opening URLs to prevent race conditions
-let openingQueue: string[] = [];
+let openingQueue: QueueEntry[] = [];
+let inFlightEntry: QueueEntry | null = null;
+let inFlightTabId: number | null = null;
+
+// The queue is saved after every change so a suspended service worker can resume it on start-up.
+// storage.session is cleared with the browser session; Firefox before 115 lacks it and uses local storage
+const QUEUE_STORAGE_KEY = 'openingQueueState';
+const queueStorage = browserAPI.storage.session || browserAPI.storage.local;
+// Saving waits for the saved queue to be restored, so it isn't overwritten first
+let queueRestored = false;
+// Set when a new browser session starts with the local storage fallback, whose saved state is then stale
+let discardSavedState = false;
+
+// The most recent batches, newest last, for "Undo Last Open"
+let recentBatches: OpenedBatch[] = [];
+const MAX_UNDOABLE_BATCHES = 10;
+// Batches undone while one of their tabs was being created, so that tab is closed once it exists
+const undoneBatchIds = new Set<number>();
+
+// Number of links in each tab's last reported page selection, for the "Open Links in Selection" menu entry
+const selectedLinkCounts = new Map<number, number>();
+
+// History writes are chained, so tabs opened back to back can't overwrite each other's entries
+let historyWrite: Promise<void> = Promise.resolve();
+
+// Tab placement state: where each batch's tabs went, and the last tab opened from each source tab
+// Batch IDs start from the clock, so they stay unique across restarts while saved entries keep theirs
+let nextBatchId = Date.now();
+const batchPlacements = new Map<number, BatchPlacement>();
+const lastOpenedFromTab = new Map<number, number>();
 let isProcessingQueue = false;
+// Bumped when the queue is cleared, so a processing loop still waiting from before stops at its next step
+let queueGeneration = 0;
 let previousEnableState = true;
 
+// Tabs opened by the extension that are still loading, with the time they were opened
+const loadingTabs = new Map<number, number>();
+// After this long a tab stops counting as loading, so one slow page can't stall the queue
+const LOADING_TAB_TIMEOUT = 30000; // ms
+const LOADING_CHECK_INTERVAL = 250; // ms
+// Longest a lazy tab may wait in Chrome for its address to commit before it is discarded regardless
+const LAZY_TAB_DISCARD_TIMEOUT = 5000; // ms
+
+/**
+ * A large batch waiting for the user to pick the URLs to open in the confirmation dialog
+ */
+interface PendingBatch {
+  // Prepared URLs (unwrapped, cleaned and rewritten), already cut to the batch cap
+  urls: string[];
+  // Number of URLs found before the cap
+  total: number;
+  site: SiteBehavior;
+  sourceTab?: chrome.tabs.Tab;
+  pickedContainer?: string;
+  trigger: OpenTrigger;
+  // The dialog's window, so closing it cancels the batch
+  windowId?: number;
+}
+
+// Pending batches are saved with the queue's storage, so a dialog still answers after a service worker restart.
+// Their IDs start from the clock, like batch IDs, so a restarted worker can't hand out a saved batch's ID again
+const PENDING_BATCHES_STORAGE_KEY = 'pendingBatches';
+const pendingBatches = new Map<number, PendingBatch>();
+let nextPendingBatchId = Date.now();
+// Saving waits for the saved batches to be restored, so they aren't overwritten first
+let pendingBatchesLoaded = false;
+
 // Track processed request IDs to prevent duplicates
 const processedRequestIds = new Set<string>();
 const REQUEST_ID_EXPIRY = 2000; // ms - time to keep request IDs in memory
@@ -58,25 +295,145 @@ browserAPI.runtime.onInstalled.addListener(() => {
     title: MULTI_URL_MENU_TITLE,
     contexts: ['selection']
   });
+  
+  // Create refang context menu - refanging only ever happens on explicit request
+  browserAPI.contextMenus.create({
+    id: REFANG_MENU_ID,
+    title: REFANG_MENU_TITLE,
+    contexts: ['selection']
+  });
+  
+  // Create the menu for the links in a selected region, shown only while the selection holds some
+  browserAPI.contextMenus.create({
+    id: SELECTED_LINKS_MENU_ID,
+    title: SELECTED_LINKS_MENU_TITLE,
+    contexts: ['selection'],
+    visible: false
+  });
+  
+  // Create undo context menu, shown only while there is something to undo
+  browserAPI.contextMenus.create({
+    id: UNDO_MENU_ID,
+    title: UNDO_MENU_TITLE,
+    contexts: ['page', 'link', 'selection'],
+    visible: false
+  });
+  
+  buildContainerMenu();
 
   // Initialize settings
   loadSettings();
 });
 
-// Load settings from storage
-function loadSettings(): void {
+// A restarted service worker starts from scratch: reload the settings, then resume any queue left behind
+loadSettings(restoreOpeningQueue);
+// Messages and window events about pending batches wait for the saved ones to be restored
+const pendingBatchesRestored = restorePendingBatches();
+
+// Local storage outlives the browser session, so without session storage a new session drops what was
+// saved in the last one rather than reopening its leftover links. Whatever was restored already is cleared too
+browserAPI.runtime.onStartup.addListener(() => {
+  if (browserAPI.storage.session) {
+    return;
+  }
+  
+  discardSavedState = true;
+  queueStorage.remove([QUEUE_STORAGE_KEY, PENDING_BATCHES_STORAGE_KEY]);
+  clearOpeningQueue();
+  pendingBatches.clear();
+  savePendingBatches();
+});
+
+// Keep the container submenu in step with the user's containers
+const containersAPI = getContainersAPI();
+if (containersAPI) {
+  containersAPI.onCreated?.addListener(buildContainerMenu);
+  containersAPI.onRemoved?.addListener(buildContainerMenu);
+  containersAPI.onUpdated?.addListener(buildContainerMenu);
+}
+
+/**
+ * Rebuild the "Open in Container…" submenu from the user's containers (Firefox only)
+ * The menu is left out when there are no containers to list
+ */
+async function buildContainerMenu(): Promise<void> {
+  if (!getContainersAPI()) {
+    return;
+  }
+  
+  // Removing the parent removes the entries under it; it may not exist yet
+  await new Promise<void>(resolve => browserAPI.contextMenus.remove(CONTAINER_MENU_ID, () => {
+    if (browserAPI.runtime.lastError && settings.debugMode) {
+      console.log('No container menu to remove');
+    }
+    resolve();
+  }));
+  
+  const containers = await getContainers();
+  if (containers.length === 0) {
+    return;
+  }
+  
+  browserAPI.contextMenus.create({
+    id: CONTAINER_MENU_ID,
+    title: CONTAINER_MENU_TITLE,
+    contexts: ['link', 'selection'],
+    visible: settings.enableExtension
+  });
+  containers.forEach(container => {
+    browserAPI.contextMenus.create({
+      id: `${CONTAINER_MENU_ID}:${container.cookieStoreId}`,
+      parentId: CONTAINER_MENU_ID,
+      title: container.name,
+      contexts: ['link', 'selection']
+    });
+  });
+}
+
+// Load settings from storage, then run the optional callback
+function loadSettings(onLoaded?: () => void): void {
   browserAPI.storage.sync.get({
     enableExtension: true,
     activateTabs: false,
+    tabPlacement: 'default',
+    duplicateTabs: 'open',
+    groupBatches: false,
+    groupTitleTemplate: '{title}',
+    groupColor: 'grey',
+    groupCollapsed: false,
+    joinSourceGroup: false,
     supportMultipleUrls: true,
     excludedDomains: [],
+    exclusionMode: 'exclude',
+    disabledPages: [],
+    siteOverrides: [],
+    containerRules: [],
+    // Large batch safeguards (0 turns the confirmation, cap and loading limit off)
+    confirmThreshold: 10,
+    maxBatchSize: 100,
+    openDelay: 100,
+    maxLoadingTabs: 5,
+    // Background tabs of a batch past the first lazyAfter only load once they are focused
+    lazyBatches: false,
+    lazyAfter: 5,
+    // History of opened URLs, kept in local storage (0 turns a retention limit off)
+    keepHistory: true,
+    historyMaxEntries: 500,
+    historyMaxDays: 30,
+    rewriteRules: [],
+    smartPatterns: [],
     directLinkOpen: true,  // Default to true for direct link opening
+    stripTrackingParams: true,
+    trackingParams: DEFAULT_TRACKING_PARAMS,
+    unwrapRedirects: true,
+    redirectPatterns: [],
     // Advanced settings
     debounceThreshold: 500,
     clickDistanceThreshold: 5,
     clickTimeThreshold: 300,
     debugMode: false,
-    urlPatternType: 'standard'
+    urlPatternType: 'standard',
+    resolveRelativeUrls: false
   }, (items) => {
     // Track previous enable state before updating
     previousEnableState = settings.enableExtension;
@@ -95,169 +452,1105 @@ function loadSettings(): void {
     }
     
     updateContextMenu();
+    
+    if (onLoaded) {
+      onLoaded();
+    }
   });
 }
 
-// Update context menu based on extension enabled/disabled state
+// Update context menu based on extension enabled/disabled state and the active tab's site
 function updateContextMenu(): void {
-  // Update menu visibility based on whether extension is enabled
-  try {
-    // Update main context menu item
-    browserAPI.contextMenus.update(MENU_ID, {
-      visible: settings.enableExtension && !settings.directLinkOpen // Hide menu if direct open is enabled
-    });
+  browserAPI.tabs.query({ active: true, lastFocusedWindow: true }, (tabs) => {
+    const site = getSiteSettings(tabs[0]?.url);
     
-    // Update multiple URLs context menu item
-    browserAPI.contextMenus.update(MULTI_URL_MENU_ID, {
-      visible: settings.enableExtension && settings.supportMultipleUrls
-    });
-  } catch (error) {
-    // Some browsers might not fully support this API
-    console.error("Error updating context menu:", error);
-  }
+    // Update menu visibility based on whether extension is enabled
+    try {
+      // Update main context menu item
+      browserAPI.contextMenus.update(MENU_ID, {
+        visible: settings.enableExtension && !site.directLinkOpen // Hide menu if direct open is enabled
+      });
+      
+      // Update multiple URLs context menu item
+      browserAPI.contextMenus.update(MULTI_URL_MENU_ID, {
+        visible: settings.enableExtension && settings.supportMultipleUrls
+      });
+      
+      // Update refang context menu item
+      browserAPI.contextMenus.update(REFANG_MENU_ID, {
+        visible: settings.enableExtension && settings.supportMultipleUrls
+      });
+      
+      updateSelectedLinksMenu(tabs[0]?.id);
+      updateUndoMenu();
+      
+      // Update the container submenu, which only exists in Firefox with containers set up
+      if (getContainersAPI()) {
+        browserAPI.contextMenus.update(CONTAINER_MENU_ID, { visible: settings.enableExtension }, () => {
+          if (browserAPI.runtime.lastError && settings.debugMode) {
+            console.log('No container menu to update');
+          }
+        });
+      }
+    } catch (error) {
+      // Some browsers might not fully support this API
+      console.error("Error updating context menu:", error);
+    }
+  });
 }
 
 // Clear the opening queue
 function clearOpeningQueue(): void {
   openingQueue = [];
   isProcessingQueue = false;
-  console.log('Queue cleared due to extension state change');
+  queueGeneration++;
+  saveOpeningQueue();
+  console.log('Opening queue cleared');
 }
 
 // Handle context menu item click
 browserAPI.contextMenus.onClicked.addListener((info, tab) => {
   if (!tab?.id || !settings.enableExtension) return;
+  
+  const site = getSiteSettings(tab.url);
 
   // Handle single link opening
   if (info.menuItemId === MENU_ID) {
     if (info.linkUrl) {
       // Handle clicked link
-      const url = info.linkUrl;
-      
-      if (!isExcludedDomain(url)) {
-        queueUrlForOpening(url);
-      }
+      queueUrlForOpening(info.linkUrl, createTabTarget('contextMenu', site, tab));
     } else if (info.selectionText && settings.supportMultipleUrls) {
       // Handle selected text (if multiple URLs support is enabled)
       const selectedText = info.selectionText.trim();
       
       // Extract and open URLs
-      openMultipleUrls(selectedText);
+      openMultipleUrls(selectedText, {}, site, tab);
     }
   }
-  // Handle multiple URLs opening
-  else if (info.menuItemId === MULTI_URL_MENU_ID && info.selectionText) {
+  // Handle multiple URLs opening, optionally refanging defanged URLs first
+  else if ((info.menuItemId === MULTI_URL_MENU_ID || info.menuItemId === REFANG_MENU_ID) && info.selectionText) {
     const selectedText = info.selectionText.trim();
+    const options: ExtractOptions = {
+      refang: info.menuItemId === REFANG_MENU_ID,
+      // Used only when the content script can't be reached to supply document.baseURI
+      baseUrl: getRelativeBase(info.frameUrl || info.pageUrl)
+    };
     
     // For better user experience, notify the content script first
     // This allows the content script to highlight the selection or provide visual feedback
     if (tab.id) {
       browserAPI.tabs.sendMessage(tab.id, {
         action: 'openMultipleFromSelection',
-        text: selectedText
+        text: selectedText,
+        refang: options.refang
       }).catch(error => {
         // If sending to content script fails (e.g., not loaded), open directly
         console.log('Could not send to content script, opening directly:', error);
-        openMultipleUrls(selectedText);
+        openMultipleUrls(selectedText, options, site, tab);
       });
     } else {
       // Fallback if tab ID is not available
-      openMultipleUrls(selectedText);
+      openMultipleUrls(selectedText, options, site);
+    }
+  }
+  // Open the links of the anchors in the selected region
+  else if (info.menuItemId === SELECTED_LINKS_MENU_ID && settings.supportMultipleUrls) {
+    openLinksInSelection(tab, site);
+  }
+  // Close the tabs of the last batch
+  else if (info.menuItemId === UNDO_MENU_ID) {
+    undoLastOpen();
+  }
+  // Handle opening in a container picked from the submenu
+  else if (typeof info.menuItemId === 'string' && info.menuItemId.startsWith(`${CONTAINER_MENU_ID}:`)) {
+    const cookieStoreId = info.menuItemId.slice(CONTAINER_MENU_ID.length + 1);
+    
+    if (info.linkUrl) {
+      queueUrlForOpening(info.linkUrl, createTabTarget('contextMenu', site, tab, 1, cookieStoreId));
+    } else if (info.selectionText && settings.supportMultipleUrls) {
+      openMultipleUrls(info.selectionText.trim(), {
+        baseUrl: getRelativeBase(info.frameUrl || info.pageUrl)
+      }, site, tab, cookieStoreId);
     }
   }
 });
 
-/**
- * Process text and open all valid URLs found - with URL pattern sensitivity
- */
-function openMultipleUrls(text: string): void {
-  // Check for multiple URLs with appropriate URL pattern sensitivity
-  const urls = extractUrls(text, settings.urlPatternType);
+/**
+ * Process text and open all valid URLs found - with URL pattern sensitivity
+ * @param site Settings for the site the text was selected on (see getSiteSettings)
+ * @param sourceTab Tab the text was selected in, used for tab placement and its container
+ * @param pickedContainer Container picked from the context menu, if any
+ * @param trigger What opened the URLs, recorded in the history
+ */
+function openMultipleUrls(
+  text: string,
+  options: ExtractOptions = {},
+  site: SiteBehavior = settings,
+  sourceTab?: chrome.tabs.Tab,
+  pickedContainer?: string,
+  trigger: OpenTrigger = 'selection'
+): void {
+  openFoundUrls(findUrlsToOpen(text, options, site), site, sourceTab, pickedContainer, trigger);
+}
+
+/**
+ * Open the links of the anchors in the page's selected region, whatever their visible text
+ * The content script collects them, skipping links it would not open on a right-click either
+ */
+async function openLinksInSelection(tab: chrome.tabs.Tab, site: SiteBehavior): Promise<void> {
+  if (tab.id === undefined) {
+    return;
+  }
+  
+  try {
+    const response = await browserAPI.tabs.sendMessage(tab.id, { action: 'getSelectedLinks' });
+    const links: unknown[] = Array.isArray(response?.links) ? response.links : [];
+    const urls = links.filter((link): link is string => typeof link === 'string');
+    
+    if (settings.debugMode) {
+      console.log(`Found ${urls.length} links in the selection`);
+    }
+    openFoundUrls(prepareBatch(urls), site, tab, undefined, 'selection');
+  } catch (err) {
+    console.error('Could not get the links in the selection:', err);
+  }
+}
+
+/**
+ * Open prepared URLs as one batch, asking first when there are more than the confirmation threshold
+ * @param found URLs from findUrlsToOpen or prepareBatch
+ */
+function openFoundUrls(
+  found: { urls: string[]; total: number },
+  site: SiteBehavior,
+  sourceTab?: chrome.tabs.Tab,
+  pickedContainer?: string,
+  trigger: OpenTrigger = 'selection'
+): void {
+  const { urls, total } = found;
+  if (urls.length === 0) {
+    return;
+  }
+  
+  if (urls.length < total) {
+    console.warn(`Only opening the first ${urls.length} of ${total} URLs (batch limit)`);
+  }
+  
+  if (settings.confirmThreshold > 0 && urls.length > settings.confirmThreshold) {
+    requestBatchConfirmation({ urls, total, site, sourceTab, pickedContainer, trigger });
+  } else {
+    openBatch(urls, site, sourceTab, pickedContainer, trigger);
+  }
+}
+
+/**
+ * Find the URLs in a text that would open, as every entry point and the address bar preview see them:
+ * extracted with the site's URL pattern sensitivity and smart patterns, then prepared as a batch
+ *
+ * @param site Settings for the site the text came from
+ * @returns The URLs to open, and how many there were before the batch limit
+ */
+function findUrlsToOpen(
+  text: string,
+  options: ExtractOptions,
+  site: SiteBehavior
+): { urls: string[]; total: number } {
+  // Check for multiple URLs with appropriate URL pattern sensitivity, expanding shorthand tokens too
+  const { urls, formats, expansions } = extractUrlsWithFormats(text, site.urlPatternType, {
+    ...options,
+    smartPatterns: settings.smartPatterns
+  });
+  if (urls.length === 0) {
+    return { urls: [], total: 0 };
+  }
+  
+  if (settings.debugMode) {
+    console.log(`Found ${urls.length} URLs in text with pattern type ${site.urlPatternType}` +
+      (options.refang ? ' (refanged)' : '') +
+      (formats.length > 0 ? ` using ${formats.join(', ')} parser${formats.length > 1 ? 's' : ''}` : '') +
+      (expansions > 0 ? `, ${expansions} expanded from smart patterns` : ''));
+  }
+  
+  return prepareBatch(urls);
+}
+
+/**
+ * Prepare URLs to open together: unwrap, check exclusions, clean and rewrite each,
+ * collapse duplicates and cut the batch to the batch limit
+ * @returns The URLs to open, and how many there were before the batch limit
+ */
+function prepareBatch(urls: string[]): { urls: string[]; total: number } {
+  // Prepare every URL up front, so the cap and the confirmation count only what would really open
+  const openable = urls
+    .map(prepareUrlForOpening)
+    .filter((url): url is string => url !== null);
+  
+  // Collapse duplicates within the batch, such as the same page with and without a fragment
+  const seen = new Set<string>();
+  const unique = openable.filter(url => {
+    const canonical = getCanonicalTabUrl(url);
+    if (seen.has(canonical)) {
+      return false;
+    }
+    seen.add(canonical);
+    return true;
+  });
+  if (unique.length < openable.length && settings.debugMode) {
+    console.log(`Collapsed ${openable.length - unique.length} duplicate URL(s) in the batch`);
+  }
+  
+  return {
+    urls: settings.maxBatchSize > 0 ? unique.slice(0, settings.maxBatchSize) : unique,
+    total: unique.length
+  };
+}
+
+/**
+ * Queue prepared URLs as one batch, so they keep their order (and share a group)
+ */
+function openBatch(
+  urls: string[],
+  site: SiteBehavior,
+  sourceTab?: chrome.tabs.Tab,
+  pickedContainer?: string,
+  trigger: OpenTrigger = 'selection'
+): void {
+  if (urls.length === 0 || !settings.enableExtension) {
+    return;
+  }
+  
+  const target = createTabTarget(trigger, site, sourceTab, urls.length, pickedContainer);
+  urls.forEach(url => enqueueUrl(url, target));
+}
+
+/**
+ * Ask the user which URLs of a large batch to open, in a dialog window listing them with checkboxes
+ * Nothing opens until the dialog answers; closing it cancels the batch
+ */
+function requestBatchConfirmation(batch: PendingBatch): void {
+  const batchId = nextPendingBatchId++;
+  pendingBatches.set(batchId, batch);
+  savePendingBatches();
+  
+  browserAPI.windows.create({
+    url: browserAPI.runtime.getURL(`confirm/confirm.html?batch=${batchId}`),
+    type: 'popup',
+    width: 560,
+    height: 640
+  }, (window) => {
+    const err = browserAPI.runtime.lastError;
+    if (err || !window) {
+      console.error('Error opening the confirmation dialog:', err);
+      pendingBatches.delete(batchId);
+      savePendingBatches();
+      return;
+    }
+    batch.windowId = window.id;
+    savePendingBatches();
+  });
+}
+
+/**
+ * Save the batches waiting for their confirmation dialog
+ */
+function savePendingBatches(): void {
+  if (!pendingBatchesLoaded) {
+    return;
+  }
+  
+  queueStorage.set({ [PENDING_BATCHES_STORAGE_KEY]: Array.from(pendingBatches) }, () => {
+    const err = browserAPI.runtime.lastError;
+    if (err) {
+      console.error('Error saving the batches awaiting confirmation:', err);
+    }
+  });
+}
+
+/**
+ * Bring back the batches saved before the service worker was suspended
+ * A batch whose dialog window has been closed in the meantime is dropped
+ */
+async function restorePendingBatches(): Promise<void> {
+  try {
+    const items = await callBrowserAPI<{ [key: string]: unknown }>(callback =>
+      queueStorage.get(PENDING_BATCHES_STORAGE_KEY, callback)
+    );
+    const saved = discardSavedState ? undefined : items[PENDING_BATCHES_STORAGE_KEY] as [number, PendingBatch][] | undefined;
+    
+    for (const [batchId, batch] of Array.isArray(saved) ? saved : []) {
+      if (batch.windowId === undefined || pendingBatches.has(batchId)) {
+        continue;
+      }
+      try {
+        await callBrowserAPI<chrome.windows.Window>(callback => browserAPI.windows.get(batch.windowId as number, callback));
+        pendingBatches.set(batchId, batch);
+      } catch (err) {
+        // The dialog is gone, so nobody can answer this batch any more
+      }
+    }
+  } catch (err) {
+    console.error('Error restoring the batches awaiting confirmation:', err);
+  }
+  
+  pendingBatchesLoaded = true;
+  savePendingBatches();
+}
+
+// Closing the confirmation dialog without answering cancels its batch
+browserAPI.windows.onRemoved.addListener((windowId) => {
+  pendingBatchesRestored.then(() => {
+    pendingBatches.forEach((batch, batchId) => {
+      if (batch.windowId === windowId) {
+        pendingBatches.delete(batchId);
+        savePendingBatches();
+      }
+    });
+  });
+});
+
+/**
+ * Show how many URLs (and smart pattern expansions) the current selection holds
+ * in the multiple URLs context menu title
+ */
+function updateSelectionMenuTitle(text: string, baseUrl?: string, site: SiteBehavior = settings): void {
+  let title = MULTI_URL_MENU_TITLE;
+  
+  if (text) {
+    const { urls, expansions } = extractUrlsWithFormats(text, site.urlPatternType, {
+      smartPatterns: settings.smartPatterns,
+      baseUrl
+    });
+    if (urls.length > 0) {
+      title += expansions > 0 ? ` (${urls.length}, ${expansions} expanded)` : ` (${urls.length})`;
+    }
+  }
+  
+  try {
+    browserAPI.contextMenus.update(MULTI_URL_MENU_ID, { title });
+  } catch (error) {
+    console.error("Error updating context menu title:", error);
+  }
+}
+
+/**
+ * Show the "Open Links in Selection" entry, with the number of links, only while the page selection holds links
+ * @param tabId The active tab, whose selection the menu is for
+ */
+function updateSelectedLinksMenu(tabId: number | undefined): void {
+  const linkCount = (tabId !== undefined && selectedLinkCounts.get(tabId)) || 0;
+  
+  try {
+    browserAPI.contextMenus.update(SELECTED_LINKS_MENU_ID, {
+      visible: settings.enableExtension && settings.supportMultipleUrls && linkCount > 0,
+      title: `${SELECTED_LINKS_MENU_TITLE} (${linkCount})`
+    });
+  } catch (error) {
+    console.error("Error updating context menu title:", error);
+  }
+}
+
+/**
+ * Checks if a rule list from a message holds the same rules, in the same order, as a saved one
+ */
+function isSameRuleList(rules: unknown, saved: string[]): boolean {
+  return Array.isArray(rules) && rules.length === saved.length && rules.every((rule, index) => rule === saved[index]);
+}
+
+/**
+ * Returns the settings in effect on a page: the global settings with the page's site override on top
+ * @param pageUrl Address of the page the action started on (the sender tab's URL)
+ */
+function getSiteSettings(pageUrl: string | undefined): SiteBehavior {
+  return resolveSiteSettings(settings, pageUrl, settings.siteOverrides.filter(isSiteOverride));
+}
+
+/**
+ * Returns the page address to resolve relative references against,
+ * or undefined when relative URL resolution is turned off
+ * @param baseUrl The page's document.baseURI, as sent by the content script
+ */
+function getRelativeBase(baseUrl: unknown): string | undefined {
+  return settings.resolveRelativeUrls && typeof baseUrl === 'string' && baseUrl ? baseUrl : undefined;
+}
+
+/**
+ * Check if the exclusion rules block a URL (or, in allowlist mode, don't allow it)
+ */
+function isExcludedUrl(url: string): boolean {
+  try {
+    const { blocked, match } = checkExclusion(url, settings.excludedDomains, settings.exclusionMode);
+    
+    if (blocked && settings.debugMode) {
+      console.log(match
+        ? `URL blocked by exclusion rule ${match.index + 1} (${match.rule}): ${match.reason}`
+        : 'URL blocked because no allowlist rule matches');
+    }
+    
+    return blocked;
+  } catch (e) {
+    console.error('Error checking exclusion rules:', e);
+    return false;
+  }
+}
+
+// Remove tracking parameters from a URL if the setting is enabled
+function cleanUrl(url: string): string {
+  if (!settings.stripTrackingParams) {
+    return url;
+  }
+  
+  const { url: cleanedUrl, removed } = stripTrackingParams(url, settings.trackingParams);
+  
+  if (removed.length > 0 && settings.debugMode) {
+    console.log(`Removed tracking parameters (${removed.join(', ')}) from ${url}`);
+  }
+  
+  return cleanedUrl;
+}
+
+// Replace a redirector or safe-link URL with its destination if the setting is enabled
+function unwrapUrl(url: string): string {
+  if (!settings.unwrapRedirects) {
+    return url;
+  }
+  
+  const { url: destination, unwrapped } = unwrapRedirect(url, settings.redirectPatterns);
+  
+  if (unwrapped.length > 0 && settings.debugMode) {
+    console.log(`Unwrapped redirect (${unwrapped.join(' → ')}) from ${url} to ${destination}`);
+  }
+  
+  return destination;
+}
+
+// Apply the user's rewrite rules to a URL
+function rewriteUrl(url: string): string {
+  const { url: rewrittenUrl, applied } = applyRewriteRules(url, settings.rewriteRules);
+  
+  if (applied.length > 0 && settings.debugMode) {
+    console.log(`Rewrote ${url} to ${rewrittenUrl} using rule${applied.length > 1 ? 's' : ''} ` +
+      applied.map(index => `#${index + 1}`).join(', '));
+  }
+  
+  return rewrittenUrl;
+}
+
+/**
+ * Start a new batch of tabs opened from a source tab
+ * Batches of several URLs get their own tab group, single URLs may join the source tab's group.
+ * Tabs open in the source tab's container unless one was picked from the context menu
+ *
+ * @param trigger What opened the URLs, recorded in the history
+ * @param site Settings for the source tab's site
+ * @param sourceTab The tab the URLs came from (sender.tab for content script messages)
+ * @param batchSize Number of URLs that will be opened in the batch
+ * @param pickedContainer Cookie store ID of a container picked from the context menu
+ */
+function createTabTarget(
+  trigger: OpenTrigger,
+  site: SiteBehavior,
+  sourceTab?: chrome.tabs.Tab,
+  batchSize: number = 1,
+  pickedContainer?: string
+): TabTarget {
+  let group: TabTarget['group'];
+  if (batchSize > 1 && settings.groupBatches) {
+    group = 'batch';
+  } else if (batchSize === 1 && settings.joinSourceGroup && sourceTab?.id !== undefined) {
+    group = 'source';
+  }
+  
+  return {
+    trigger,
+    active: site.activateTabs,
+    sourceTabId: sourceTab?.id,
+    sourceUrl: sourceTab?.url,
+    sourceTitle: sourceTab?.title,
+    cookieStoreId: pickedContainer || getTabContainer(sourceTab),
+    containerPicked: !!pickedContainer,
+    batchId: nextBatchId++,
+    batchSize,
+    group
+  };
+}
+
+// Unwrap, check exclusions, clean and rewrite a URL (then check the rewritten one) before it opens
+// Every entry point goes through here, so these apply to all of them
+// Returns the URL to open, or null if it is excluded
+function prepareUrlForOpening(url: string): string | null {
+  // Exclusions apply to the real destination, not the redirector in front of it
+  const destination = unwrapUrl(url);
+  if (isExcludedUrl(destination)) {
+    if (settings.debugMode) {
+      console.log('URL not added to queue because it is excluded:', destination);
+    }
+    return null;
+  }
+  
+  // A rewrite rule can point somewhere excluded, or outside the allowlist, so its result is checked too
+  const rewritten = rewriteUrl(cleanUrl(destination));
+  if (rewritten !== destination && isExcludedUrl(rewritten)) {
+    if (settings.debugMode) {
+      console.log('URL not added to queue because its rewritten form is excluded:', rewritten);
+    }
+    return null;
+  }
+  
+  return rewritten;
+}
+
+// Queue URL for opening to prevent race conditions
+// Returns true if the URL was queued
+function queueUrlForOpening(url: string, target: TabTarget): boolean {
+  // Only add to queue if extension is enabled
+  if (!settings.enableExtension) {
+    console.log('URL not added to queue because extension is disabled:', url);
+    return false;
+  }
+  
+  const prepared = prepareUrlForOpening(url);
+  if (prepared === null) {
+    return false;
+  }
+  
+  enqueueUrl(prepared, target);
+  return true;
+}
+
+// Add a prepared URL to the queue and start processing it if not already in progress
+function enqueueUrl(url: string, target: TabTarget): void {
+  openingQueue.push({ url, target });
+  
+  // Remember the batch so it can be undone, even before any of its tabs exist
+  if (!recentBatches.some(batch => batch.batchId === target.batchId)) {
+    recentBatches = [...recentBatches, { batchId: target.batchId, tabIds: [] }].slice(-MAX_UNDOABLE_BATCHES);
+    updateUndoMenu();
+  }
+  saveOpeningQueue();
+  
+  if (!isProcessingQueue) {
+    processUrlQueue();
+  }
+}
+
+// Process URL queue one at a time
+async function processUrlQueue(): Promise<void> {
+  isProcessingQueue = true;
+  const generation = queueGeneration;
+  const isCurrent = () => generation === queueGeneration;
+  
+  while (isCurrent() && openingQueue.length > 0 && settings.enableExtension) {
+    // Hold back while too many of the tabs already opened are still loading
+    await waitForLoadingTabs();
+    if (!isCurrent() || openingQueue.length === 0 || !settings.enableExtension) {
+      break;
+    }
+    
+    // Saved as in flight before its tab is created, so a restart in between can't lose it or open it twice
+    const entry = openingQueue.shift() as QueueEntry;
+    inFlightEntry = entry;
+    inFlightTabId = null;
+    await saveOpeningQueue();
+    if (!isCurrent()) {
+      // The queue was cleared before this tab was created
+      if (inFlightEntry === entry) {
+        inFlightEntry = null;
+        inFlightTabId = null;
+      }
+      break;
+    }
+    
+    await openUrlInNewTab(entry.url, entry.target);
+    if (inFlightEntry === entry) {
+      inFlightEntry = null;
+      inFlightTabId = null;
+    }
+    undoneBatchIds.delete(entry.target.batchId);
+    
+    // Pause between tabs to prevent overloading the browser
+    await new Promise(resolve => setTimeout(resolve, settings.openDelay));
+  }
+  
+  // A loop from before the queue was cleared leaves the state to the loop that replaced it
+  if (!isCurrent() && isProcessingQueue) {
+    return;
+  }
+  
+  // Batches are queued all at once, so none is left half-open here
+  batchPlacements.clear();
+  isProcessingQueue = false;
+  saveOpeningQueue();
+}
+
+/**
+ * Save the opening queue, the entry being opened and the batches' placement state
+ */
+function saveOpeningQueue(): Promise<void> {
+  if (!queueRestored) {
+    return Promise.resolve();
+  }
+  
+  const saved: SavedQueue = {
+    entries: openingQueue,
+    inFlight: inFlightEntry,
+    inFlightTabId,
+    batches: Array.from(batchPlacements),
+    recentBatches
+  };
+  
+  return new Promise(resolve => {
+    queueStorage.set({ [QUEUE_STORAGE_KEY]: saved }, () => {
+      const err = browserAPI.runtime.lastError;
+      if (err) {
+        console.error('Error saving the opening queue:', err);
+      }
+      resolve();
+    });
+  });
+}
+
+/**
+ * Resume a queue saved before the service worker was suspended
+ * The entry that was being opened is only opened again if no tab had been created for it yet
+ */
+async function restoreOpeningQueue(): Promise<void> {
+  try {
+    const items = await callBrowserAPI<{ [key: string]: unknown }>(callback =>
+      queueStorage.get(QUEUE_STORAGE_KEY, callback)
+    );
+    const saved = discardSavedState ? undefined : items[QUEUE_STORAGE_KEY] as SavedQueue | undefined;
+    
+    if (saved && Array.isArray(saved.entries)) {
+      const entries = [...saved.entries];
+      if (saved.inFlight && typeof saved.inFlightTabId !== 'number') {
+        entries.unshift(saved.inFlight);
+      }
+      
+      (saved.batches || []).forEach(([batchId, placement]) => {
+        if (!batchPlacements.has(batchId)) {
+          batchPlacements.set(batchId, placement);
+        }
+      });
+      
+      // Tab IDs only last for the browser session, so batches saved in local storage can't be undone
+      if (browserAPI.storage.session && Array.isArray(saved.recentBatches)) {
+        recentBatches = [...saved.recentBatches, ...recentBatches].slice(-MAX_UNDOABLE_BATCHES);
+        updateUndoMenu();
+      }
+      
+      // URLs queued since the restart go after the ones left behind
+      openingQueue = [...entries, ...openingQueue];
+      if (entries.length > 0) {
+        console.log(`Resuming ${entries.length} URL(s) left in the opening queue`);
+      }
+    }
+  } catch (err) {
+    console.error('Error restoring the opening queue:', err);
+  }
+  
+  queueRestored = true;
+  await saveOpeningQueue();
+  
+  if (openingQueue.length > 0 && !isProcessingQueue) {
+    processUrlQueue();
+  }
+}
+
+/**
+ * Find the newest batch that still has open tabs or URLs waiting in the queue
+ */
+function getUndoableBatch(): OpenedBatch | undefined {
+  for (let index = recentBatches.length - 1; index >= 0; index--) {
+    const batch = recentBatches[index];
+    const hasPending = inFlightEntry?.target.batchId === batch.batchId ||
+      openingQueue.some(entry => entry.target.batchId === batch.batchId);
+    if (batch.tabIds.length > 0 || hasPending) {
+      return batch;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Undo the most recent batch: drop its URLs still waiting in the queue and close the tabs it opened
+ * Tabs the user has closed since are skipped; other tabs are never touched
+ */
+async function undoLastOpen(): Promise<void> {
+  const batch = getUndoableBatch();
+  if (!batch) {
+    if (settings.debugMode) {
+      console.log('Nothing to undo');
+    }
+    return;
+  }
+  
+  recentBatches = recentBatches.filter(recent => recent !== batch);
+  const queued = openingQueue.length;
+  openingQueue = openingQueue.filter(entry => entry.target.batchId !== batch.batchId);
+  if (inFlightEntry?.target.batchId === batch.batchId) {
+    undoneBatchIds.add(batch.batchId);
+  }
+  saveOpeningQueue();
+  updateUndoMenu();
+  
+  if (batch.tabIds.length > 0) {
+    try {
+      await callBrowserAPI<void>(callback => browserAPI.tabs.remove(batch.tabIds, callback));
+    } catch (err) {
+      // A tab went away in the meantime, which fails the whole call: close the rest one by one
+      await Promise.all(batch.tabIds.map(tabId =>
+        callBrowserAPI<void>(callback => browserAPI.tabs.remove(tabId, callback)).catch(() => undefined)
+      ));
+    }
+  }
+  
+  console.log(`Undid the last open: closed ${batch.tabIds.length} tab(s), cancelled ${queued - openingQueue.length} queued URL(s)`);
+}
+
+/**
+ * Show the undo menu item only while there is a batch to undo, with the number of its tabs
+ */
+function updateUndoMenu(): void {
+  const batch = getUndoableBatch();
+  const count = batch ? batch.tabIds.length : 0;
+  
+  browserAPI.contextMenus.update(UNDO_MENU_ID, {
+    visible: settings.enableExtension && !!batch,
+    title: count > 0 ? `${UNDO_MENU_TITLE} (${count} tab${count === 1 ? '' : 's'})` : UNDO_MENU_TITLE
+  }, () => {
+    if (browserAPI.runtime.lastError && settings.debugMode) {
+      console.log('Undo menu not updated:', browserAPI.runtime.lastError.message);
+    }
+  });
+}
+
+// Keyboard shortcuts
+browserAPI.commands.onCommand.addListener((command, tab) => {
+  if (command === OPEN_SELECTION_COMMAND || command === OPEN_FOCUSED_LINK_COMMAND) {
+    openFromPage(command, tab);
+  } else if (command === OPEN_CLIPBOARD_COMMAND) {
+    openFromClipboard(tab);
+  } else if (command === TOGGLE_EXTENSION_COMMAND) {
+    toggleSetting('enableExtension');
+  } else if (command === TOGGLE_DIRECT_OPEN_COMMAND) {
+    toggleSetting('directLinkOpen');
+  } else if (command === UNDO_COMMAND) {
+    undoLastOpen();
+  }
+});
+
+/**
+ * Get the tab a shortcut was pressed in (or the address bar typed in), where the browser doesn't pass it along
+ */
+async function getActiveTab(tab?: chrome.tabs.Tab): Promise<chrome.tabs.Tab | undefined> {
+  if (tab?.id !== undefined) {
+    return tab;
+  }
+  const tabs = await callBrowserAPI<chrome.tabs.Tab[]>(callback =>
+    browserAPI.tabs.query({ active: true, lastFocusedWindow: true }, callback)
+  );
+  return tabs[0];
+}
+
+/**
+ * Open the URLs in the page's selection, or its focused link, from a keyboard shortcut
+ * The content script reports both; pages it can't run on (like the browser's own) have neither
+ */
+async function openFromPage(command: string, shortcutTab?: chrome.tabs.Tab): Promise<void> {
+  if (!settings.enableExtension) {
+    return;
+  }
+  
+  try {
+    const tab = await getActiveTab(shortcutTab);
+    if (tab?.id === undefined) {
+      return;
+    }
+    
+    const content = await browserAPI.tabs.sendMessage(tab.id, { action: 'getFocusedContent' });
+    const site = getSiteSettings(tab.url);
+    
+    if (command === OPEN_FOCUSED_LINK_COMMAND) {
+      if (typeof content?.focusedLink === 'string') {
+        queueUrlForOpening(content.focusedLink, createTabTarget('shortcut', site, tab));
+      } else if (settings.debugMode) {
+        console.log('No focused link to open');
+      }
+    } else if (typeof content?.selection === 'string' && content.selection && settings.supportMultipleUrls) {
+      openMultipleUrls(content.selection, { baseUrl: getRelativeBase(content.baseUrl) }, site, tab, undefined, 'shortcut');
+    }
+  } catch (err) {
+    console.error(`Error running the ${command} shortcut:`, err);
+  }
+}
+
+/**
+ * Open every URL on the clipboard from a keyboard shortcut
+ */
+async function openFromClipboard(shortcutTab?: chrome.tabs.Tab): Promise<void> {
+  if (!settings.enableExtension) {
+    return;
+  }
+  
+  // Asked before anything else is awaited, while the shortcut still counts as a user action
+  const granted = await requestClipboardPermission();
+  if (!granted) {
+    console.log('Clipboard URLs not opened: permission to read the clipboard was not granted');
+    return;
+  }
+  
+  try {
+    const tab = await getActiveTab(shortcutTab);
+    const text = (await readClipboardText()).trim();
+    if (!text) {
+      if (settings.debugMode) {
+        console.log('Nothing on the clipboard to open');
+      }
+      return;
+    }
+    openMultipleUrls(text, {}, getSiteSettings(tab?.url), tab, undefined, 'clipboard');
+  } catch (err) {
+    console.error('Error reading the clipboard:', err);
+  }
+}
+
+/**
+ * Ask for the optional clipboard permission; the browser only prompts if it hasn't been granted yet
+ */
+function requestClipboardPermission(): Promise<boolean> {
+  return new Promise(resolve => {
+    browserAPI.permissions.request({ permissions: [CLIPBOARD_PERMISSION] }, (granted) => {
+      const err = browserAPI.runtime.lastError;
+      if (err) {
+        console.error('Error requesting the clipboard permission:', err);
+      }
+      resolve(!err && granted);
+    });
+  });
+}
+
+/**
+ * Read the text on the clipboard
+ * Firefox runs the background script in a page that can read it directly. Chrome's service worker
+ * can't, so the text is pasted in an offscreen document that is only open for the read
+ */
+async function readClipboardText(): Promise<string> {
+  if (isFirefox || !browserAPI.offscreen) {
+    return navigator.clipboard.readText();
+  }
+  
+  try {
+    await browserAPI.offscreen.createDocument({
+      url: OFFSCREEN_DOCUMENT_URL,
+      reasons: [browserAPI.offscreen.Reason.CLIPBOARD],
+      justification: 'Read the URLs on the clipboard for the Open Clipboard URLs shortcut'
+    });
+  } catch (err) {
+    // Only one offscreen document may exist; one left by an earlier read does just as well
+    if (settings.debugMode) {
+      console.log('Offscreen document not created:', err);
+    }
+  }
+  
+  try {
+    const response = await browserAPI.runtime.sendMessage({ action: 'readClipboard' });
+    return typeof response?.text === 'string' ? response.text : '';
+  } finally {
+    browserAPI.offscreen.closeDocument().catch(() => undefined);
+  }
+}
+
+/**
+ * Turn the extension or direct link opening on or off from a keyboard shortcut, as the popup's toggle would
+ * The badge shows the new state for a moment, since a shortcut has nothing else to show
+ */
+function toggleSetting(key: 'enableExtension' | 'directLinkOpen'): void {
+  const enabled = !settings[key];
+  
+  browserAPI.storage.sync.set({ [key]: enabled }, () => {
+    const err = browserAPI.runtime.lastError;
+    if (err) {
+      console.error('Error saving settings:', err);
+      return;
+    }
+    
+    previousEnableState = settings.enableExtension;
+    settings[key] = enabled;
+    
+    if (key === 'enableExtension') {
+      // The same as turning the extension off in the popup: drop the queue and tell the content scripts
+      if (!enabled && previousEnableState) {
+        clearOpeningQueue();
+      }
+      notifyExtensionStateChange();
+    }
+    updateContextMenu();
+    
+    browserAPI.action.setBadgeText({ text: enabled ? 'ON' : 'OFF' });
+    setTimeout(() => browserAPI.action.setBadgeText({ text: '' }), BADGE_FLASH_DURATION);
+    
+    if (settings.debugMode) {
+      console.log(`${key} turned ${enabled ? 'on' : 'off'} by shortcut`);
+    }
+  });
+}
+
+// Address bar keyword ("ol" followed by text): preview the URLs found while typing, open them all on Enter.
+// The text goes through the same extraction, exclusions and rewriting as a selection, with the global settings
+browserAPI.omnibox.onInputStarted.addListener(() => {
+  setOmniboxDefault('Paste or type text to open every URL in it');
+});
+
+// The preview runs the whole batch preparation, so it waits for a pause in typing rather than every keystroke
+let omniboxPreviewTimer: ReturnType<typeof setTimeout> | undefined;
+
+browserAPI.omnibox.onInputChanged.addListener((text, suggest) => {
+  clearTimeout(omniboxPreviewTimer);
+  
+  if (!settings.enableExtension) {
+    setOmniboxDefault('Open Link in New Tab is turned off');
+    suggest([]);
+    return;
+  }
+  
+  omniboxPreviewTimer = setTimeout(() => showOmniboxPreview(text, suggest), OMNIBOX_PREVIEW_DELAY);
+});
+
+browserAPI.omnibox.onInputEntered.addListener(async (text) => {
+  clearTimeout(omniboxPreviewTimer);
   
-  if (urls.length > 0) {
-    if (settings.debugMode) {
-      console.log(`Found ${urls.length} URLs in text with pattern type ${settings.urlPatternType}`);
-    }
-    
-    // Open all valid, non-excluded URLs in new tabs
-    urls.filter(url => !isExcludedDomain(url))
-        .forEach(url => queueUrlForOpening(url));
+  if (!settings.enableExtension) {
+    return;
   }
-}
-
-// Check if a URL is from an excluded domain
-function isExcludedDomain(url: string): boolean {
+  
   try {
-    if (!settings.excludedDomains.length) return false;
-    
-    const hostname = new URL(url).hostname;
-    // Normalize domain by removing www. prefix for comparison
-    const normalizedHostname = hostname.replace(/^www\./, '');
-    
-    return settings.excludedDomains.some(domain => {
-      // Normalize each excluded domain by removing www. prefix
-      const cleanDomain = domain.replace(/^www\./, '');
-      return normalizedHostname === cleanDomain || normalizedHostname.endsWith('.' + cleanDomain);
-    });
-  } catch (e) {
-    console.error('Error checking excluded domain:', e);
-    return false;
+    // Tabs are placed relative to the tab the address bar belongs to
+    const tab = await getActiveTab();
+    openMultipleUrls(text, {}, settings, tab, undefined, 'omnibox');
+  } catch (err) {
+    console.error('Error opening URLs from the address bar:', err);
   }
-}
+});
 
-// Queue URL for opening to prevent race conditions
-function queueUrlForOpening(url: string): void {
-  // Only add to queue if extension is enabled
-  if (!settings.enableExtension) {
-    console.log('URL not added to queue because extension is disabled:', url);
+/**
+ * Describe what Enter would open for the typed text, and suggest the first few URLs
+ */
+function showOmniboxPreview(
+  text: string,
+  suggest: (suggestResults: chrome.omnibox.SuggestResult[]) => void
+): void {
+  const { urls, total } = findUrlsToOpen(text, {}, settings);
+  if (urls.length === 0) {
+    setOmniboxDefault(text.trim() ? 'No URLs found in the text' : 'Paste or type text to open every URL in it');
+    suggest([]);
     return;
   }
   
-  // Add URL to queue
-  openingQueue.push(url);
-  
-  // Start processing the queue if not already in progress
-  if (!isProcessingQueue) {
-    processUrlQueue();
+  let summary = `Open ${urls.length} URL${urls.length === 1 ? '' : 's'}`;
+  if (urls.length < total) {
+    summary += ` (the first ${urls.length} of ${total}, batch limit)`;
+  }
+  if (settings.confirmThreshold > 0 && urls.length > settings.confirmThreshold) {
+    summary += ', after confirming';
   }
+  setOmniboxDefault(summary);
+  
+  // Picking one of these opens just that URL
+  suggest(urls.slice(0, OMNIBOX_PREVIEW_COUNT).map(url => ({
+    content: url,
+    description: formatOmniboxText(url, 'url')
+  })));
 }
 
-// Process URL queue one at a time
-async function processUrlQueue(): Promise<void> {
-  isProcessingQueue = true;
+/**
+ * Set the first address bar suggestion, the one Enter picks
+ */
+function setOmniboxDefault(description: string): void {
+  browserAPI.omnibox.setDefaultSuggestion({ description: formatOmniboxText(description) });
+}
+
+/**
+ * Chrome reads suggestion descriptions as XML with <url>, <match> and <dim> markup; Firefox shows plain text
+ */
+function formatOmniboxText(text: string, markup?: 'url' | 'dim'): string {
+  if (isFirefox) {
+    return text;
+  }
   
-  while (openingQueue.length > 0 && settings.enableExtension) {
-    const url = openingQueue.shift() as string;
-    await openUrlInNewTab(url);
+  const escaped = text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+  return markup ? `<${markup}>${escaped}</${markup}>` : escaped;
+}
+
+/**
+ * Wait until fewer tabs opened by the extension are loading than the loading limit allows
+ */
+async function waitForLoadingTabs(): Promise<void> {
+  while (settings.maxLoadingTabs > 0 && settings.enableExtension) {
+    const now = Date.now();
+    loadingTabs.forEach((openedAt, tabId) => {
+      if (now - openedAt > LOADING_TAB_TIMEOUT) {
+        loadingTabs.delete(tabId);
+      }
+    });
     
-    // Brief delay to prevent overloading the browser
-    await new Promise(resolve => setTimeout(resolve, 100));
+    if (loadingTabs.size < settings.maxLoadingTabs) {
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, LOADING_CHECK_INTERVAL));
   }
-  
-  isProcessingQueue = false;
 }
 
 // Message handler for various actions
 browserAPI.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  // Behavior settings for the page the message came from (popup messages have no tab)
+  const site = getSiteSettings(sender.tab?.url);
+  
   // Check if selected text is a valid URL
   if (message.action === 'checkSelection') {
-    const isValid = settings.enableExtension && isValidUrl(message.text);
-    const directOpen = isValid && settings.directLinkOpen;
+    const baseUrl = getRelativeBase(message.baseUrl);
+    const isValid = settings.enableExtension &&
+      extractUrls(message.text, site.urlPatternType, { baseUrl }).length > 0;
+    // Only a selection of nothing but URLs opens straight away; prose mentioning one gets the menu
+    const directOpen = isValid && site.directLinkOpen && containsOnlyUrls(message.text, site.urlPatternType);
     
     if (directOpen && settings.supportMultipleUrls) {
       // If direct open is enabled and text is valid URL, open it
-      openMultipleUrls(message.text);
+      openMultipleUrls(message.text, { baseUrl }, site, sender.tab);
     }
     
     sendResponse({ 
-      showContextMenu: isValid && !settings.directLinkOpen,
+      showContextMenu: isValid && !directOpen,
       directOpen: directOpen
     });
   } 
+  // Keep the multiple URLs menu title in sync with the page selection
+  else if (message.action === 'selectionChanged') {
+    if (settings.enableExtension && settings.supportMultipleUrls) {
+      updateSelectionMenuTitle(
+        typeof message.text === 'string' ? message.text : '',
+        getRelativeBase(message.baseUrl),
+        site
+      );
+      
+      if (sender.tab?.id !== undefined) {
+        selectedLinkCounts.set(sender.tab.id, typeof message.linkCount === 'number' ? message.linkCount : 0);
+        updateSelectedLinksMenu(sender.tab.id);
+      }
+    }
+    sendResponse({ success: true });
+  }
   // Handle opening multiple URLs from selection
   else if (message.action === 'openMultipleUrls' && message.text) {
     if (settings.enableExtension && settings.supportMultipleUrls) {
-      openMultipleUrls(message.text);
+      openMultipleUrls(message.text, {
+        refang: message.refang === true,
+        baseUrl: getRelativeBase(message.baseUrl)
+      }, site, sender.tab);
       sendResponse({ success: true });
     } else {
       sendResponse({ success: false });
@@ -265,7 +1558,7 @@ browserAPI.runtime.onMessage.addListener((message, sender, sendResponse) => {
   }
   // Check if we should directly open a link on right-click
   else if (message.action === 'shouldOpenLink' || message.action === 'directLinkClick') {
-    const shouldIntercept = settings.enableExtension && settings.directLinkOpen;
+    const shouldIntercept = settings.enableExtension && site.directLinkOpen;
     
     // For shouldOpenLink action, just return if we should intercept without opening
     if (message.action === 'shouldOpenLink') {
@@ -275,11 +1568,8 @@ browserAPI.runtime.onMessage.addListener((message, sender, sendResponse) => {
       return;
     }
     
-    // For directLinkClick, actually open the URL if appropriate
-    if (shouldIntercept && !isExcludedDomain(message.url)) {
-      // Queue the URL for opening
-      queueUrlForOpening(message.url);
-      
+    // For directLinkClick, actually open the URL if appropriate (queueing skips excluded domains)
+    if (shouldIntercept && queueUrlForOpening(message.url, createTabTarget('directClick', site, sender.tab))) {
       // Respond that we've handled it
       sendResponse({ 
         shouldOpen: true,
@@ -294,6 +1584,59 @@ browserAPI.runtime.onMessage.addListener((message, sender, sendResponse) => {
       shouldIntercept: shouldIntercept
     });
   } 
+  // Hand a large batch to its confirmation dialog
+  else if (message.action === 'getPendingBatch') {
+    pendingBatchesRestored.then(() => {
+      const batch = pendingBatches.get(message.batchId);
+      sendResponse(batch
+        ? { urls: batch.urls, total: batch.total }
+        : { urls: null });
+    });
+  }
+  // Open the URLs picked in the confirmation dialog (only ones from the batch itself)
+  else if (message.action === 'confirmBatch') {
+    pendingBatchesRestored.then(() => {
+      const batch = pendingBatches.get(message.batchId);
+      pendingBatches.delete(message.batchId);
+      savePendingBatches();
+      
+      const picked: string[] = Array.isArray(message.urls) ? message.urls : [];
+      const urls = batch ? batch.urls.filter(url => picked.includes(url)) : [];
+      if (batch) {
+        openBatch(urls, batch.site, batch.sourceTab, batch.pickedContainer, batch.trigger);
+      }
+      sendResponse({ success: !!batch, opened: urls.length });
+    });
+  }
+  else if (message.action === 'cancelBatch') {
+    pendingBatchesRestored.then(() => {
+      pendingBatches.delete(message.batchId);
+      savePendingBatches();
+      sendResponse({ success: true });
+    });
+  }
+  // Report the opening queue to the popup
+  else if (message.action === 'getQueueState') {
+    const undoable = getUndoableBatch();
+    sendResponse({
+      waiting: openingQueue.length,
+      opening: inFlightEntry ? inFlightEntry.url : null,
+      awaitingConfirmation: pendingBatches.size,
+      undoable: !!undoable,
+      undoableTabs: undoable ? undoable.tabIds.length : 0
+    });
+  }
+  else if (message.action === 'undoLastOpen') {
+    undoLastOpen().then(() => sendResponse({ success: true }));
+  }
+  // Open a URL again from the history in the popup
+  else if (message.action === 'reopenFromHistory' && typeof message.url === 'string') {
+    sendResponse({ success: queueUrlForOpening(message.url, createTabTarget('history', settings)) });
+  }
+  else if (message.action === 'clearQueue') {
+    clearOpeningQueue();
+    sendResponse({ success: true });
+  }
   // Get the current extension enabled state
   else if (message.action === 'getExtensionState') {
     sendResponse({ enabled: settings.enableExtension });
@@ -301,11 +1644,13 @@ browserAPI.runtime.onMessage.addListener((message, sender, sendResponse) => {
   // Get advanced settings for content script
   else if (message.action === 'getAdvancedSettings') {
     sendResponse({
-      debounceThreshold: settings.debounceThreshold,
-      clickDistanceThreshold: settings.clickDistanceThreshold,
-      clickTimeThreshold: settings.clickTimeThreshold,
+      debounceThreshold: site.debounceThreshold,
+      clickDistanceThreshold: site.clickDistanceThreshold,
+      clickTimeThreshold: site.clickTimeThreshold,
       debugMode: settings.debugMode,
-      urlPatternType: settings.urlPatternType
+      urlPatternType: site.urlPatternType,
+      resolveRelativeUrls: settings.resolveRelativeUrls,
+      disabledPages: settings.disabledPages
     });
   }
   // Return the current domain for the addCurrentDomain feature
@@ -345,7 +1690,22 @@ browserAPI.runtime.onMessage.addListener((message, sender, sendResponse) => {
         (typeof message.settings.debugMode !== 'undefined' && 
         message.settings.debugMode !== settings.debugMode) ||
         (typeof message.settings.urlPatternType !== 'undefined' && 
-        message.settings.urlPatternType !== settings.urlPatternType);
+        message.settings.urlPatternType !== settings.urlPatternType) ||
+        (typeof message.settings.resolveRelativeUrls !== 'undefined' && 
+        message.settings.resolveRelativeUrls !== settings.resolveRelativeUrls) ||
+        (typeof message.settings.disabledPages !== 'undefined' && 
+        !isSameRuleList(message.settings.disabledPages, settings.disabledPages)) ||
+        (typeof message.settings.siteOverrides !== 'undefined' && 
+        !(Array.isArray(message.settings.siteOverrides) &&
+          message.settings.siteOverrides.every(isSiteOverride) &&
+          sameSiteOverrides(message.settings.siteOverrides, settings.siteOverrides)));
+      
+      // Check if the history has to be pruned to tighter retention limits
+      const historyLimitsChanging = 
+        (typeof message.settings.historyMaxEntries !== 'undefined' && 
+        message.settings.historyMaxEntries !== settings.historyMaxEntries) ||
+        (typeof message.settings.historyMaxDays !== 'undefined' && 
+        message.settings.historyMaxDays !== settings.historyMaxDays);
       
       Object.assign(settings, message.settings);
       
@@ -369,6 +1729,10 @@ browserAPI.runtime.onMessage.addListener((message, sender, sendResponse) => {
         notifyAdvancedSettingsChange();
       }
       
+      if (historyLimitsChanging) {
+        updateHistory(entries => entries);
+      }
+      
       updateContextMenu();
     }
   }
@@ -404,34 +1768,46 @@ function notifyExtensionStateChange(): void {
 
 /**
  * Notify all content scripts about advanced settings changes
+ * Each tab gets the values in effect for its own site
  */
 function notifyAdvancedSettingsChange(): void {
   browserAPI.tabs.query({}, (tabs) => {
-    tabs.forEach(tab => {
-      if (tab.id) {
-        try {
-          browserAPI.tabs.sendMessage(tab.id, {
-            action: 'advancedSettingsUpdated',
-            settings: {
-              debounceThreshold: settings.debounceThreshold,
-              clickDistanceThreshold: settings.clickDistanceThreshold,
-              clickTimeThreshold: settings.clickTimeThreshold,
-              debugMode: settings.debugMode,
-              urlPatternType: settings.urlPatternType
-            }
-          }).catch(() => {
-            // Ignore errors - content script might not be loaded on some tabs
-          });
-        } catch (e) {
-          // Ignore errors in some browsers
-        }
-      }
-    });
+    tabs.forEach(sendAdvancedSettings);
   });
 }
 
+/**
+ * Send one tab's content script the advanced settings in effect for the site it shows
+ */
+function sendAdvancedSettings(tab: chrome.tabs.Tab): void {
+  if (tab.id) {
+    try {
+      const site = getSiteSettings(tab.url);
+      browserAPI.tabs.sendMessage(tab.id, {
+        action: 'advancedSettingsUpdated',
+        settings: {
+          debounceThreshold: site.debounceThreshold,
+          clickDistanceThreshold: site.clickDistanceThreshold,
+          clickTimeThreshold: site.clickTimeThreshold,
+          debugMode: settings.debugMode,
+          urlPatternType: site.urlPatternType,
+          resolveRelativeUrls: settings.resolveRelativeUrls,
+          disabledPages: settings.disabledPages
+        }
+      }).catch(() => {
+        // Ignore errors - content script might not be loaded on some tabs
+      });
+    } catch (e) {
+      // Ignore errors in some browsers
+    }
+  }
+}
+
 // Function to inject content script for selection validation
 browserAPI.tabs.onActivated.addListener((activeInfo) => {
+  // The active site may have its own direct-open override, and the tab its own selected links
+  updateContextMenu();
+  
   if (activeInfo.tabId && settings.enableExtension) {
     try {
       // Chrome/Edge way
@@ -452,25 +1828,440 @@ browserAPI.tabs.onActivated.addListener((activeInfo) => {
   }
 });
 
+// Keep the context menu in step with site overrides when the active tab navigates,
+// and the content script with its page's site override and disabled state after same-document navigation
+browserAPI.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+  // A new page starts without a selection
+  if (changeInfo.url) {
+    selectedLinkCounts.delete(tabId);
+  }
+  
+  if (changeInfo.url && tab.active) {
+    updateContextMenu();
+  }
+  
+  if (changeInfo.url) {
+    sendAdvancedSettings(tab);
+  }
+  
+  if (changeInfo.status === 'complete') {
+    loadingTabs.delete(tabId);
+  }
+});
+
+// Forget closed tabs in the placement history, the selection link counts and the batches that can be undone
+browserAPI.tabs.onRemoved.addListener((tabId) => {
+  loadingTabs.delete(tabId);
+  selectedLinkCounts.delete(tabId);
+  lastOpenedFromTab.delete(tabId);
+  lastOpenedFromTab.forEach((openedTabId, sourceTabId) => {
+    if (openedTabId === tabId) {
+      lastOpenedFromTab.delete(sourceTabId);
+    }
+  });
+  
+  const batch = recentBatches.find(recent => recent.tabIds.includes(tabId));
+  if (batch) {
+    batch.tabIds = batch.tabIds.filter(id => id !== tabId);
+    saveOpeningQueue();
+    updateUndoMenu();
+  }
+});
+
 // Helper function to open URL in new background tab
-async function openUrlInNewTab(url: string): Promise<void> {
+async function openUrlInNewTab(url: string, target: TabTarget): Promise<void> {
   // Double-check that extension is still enabled before opening
   if (!settings.enableExtension) {
     console.log('URL not opened because extension is now disabled:', url);
     return Promise.resolve();
   }
   
-  return new Promise((resolve) => {
-    browserAPI.tabs.create({ 
-      url: url,
-      active: settings.activateTabs  // Use setting to determine if tab should be activated
-    }, () => {
-      // Check for any browser errors
+  const batch = batchPlacements.get(target.batchId) || {};
+  batchPlacements.set(target.batchId, batch);
+  
+  // Background tabs of a large batch past the first few only load once they are focused
+  const lazy = settings.lazyBatches &&
+    !target.active &&
+    target.batchSize > settings.lazyAfter &&
+    (batch.opened || 0) >= settings.lazyAfter;
+  
+  try {
+    let tab: chrome.tabs.Tab | undefined;
+    
+    // Firefox only: keep the tab in its container
+    const cookieStoreId = await getContainerForUrl(url, target);
+    const container = cookieStoreId ? { cookieStoreId } : {};
+    
+    // Reuse a tab that already shows this URL, depending on the duplicate tabs setting
+    if (settings.duplicateTabs !== 'open' && await handleDuplicateTab(url, cookieStoreId)) {
+      recordHistory(url, target, DUPLICATE_OUTCOMES[settings.duplicateTabs]);
+      return;
+    }
+    
+    if (settings.tabPlacement === 'newWindow' && batch.windowId === undefined) {
+      // The first tab of a batch opens the batch's window
+      const window = await callBrowserAPI<chrome.windows.Window | undefined>(callback =>
+        browserAPI.windows.create({ url, focused: target.active, ...container }, callback)
+      );
+      batch.windowId = window?.id;
+      tab = window?.tabs?.[0];
+    } else {
+      const placement = await getTabPlacement(target, batch);
+      // Firefox can create a tab discarded, with a placeholder title until it loads
+      const discarded = lazy && isFirefox ? { discarded: true, title: getLazyTabTitle(url) } : {};
+      tab = await callBrowserAPI<chrome.tabs.Tab>(callback =>
+        browserAPI.tabs.create({
+          url: url,
+          active: target.active,  // Use setting (or the site's override) to determine if tab should be activated
+          ...placement,
+          ...container,
+          ...discarded
+        }, callback)
+      );
+    }
+    batch.opened = (batch.opened || 0) + 1;
+    
+    // Saved as soon as the tab exists, so a restart from here on can't open the entry a second time
+    if (inFlightEntry?.url === url && inFlightEntry.target === target) {
+      inFlightTabId = tab?.id ?? browserAPI.tabs.TAB_ID_NONE;
+      saveOpeningQueue();
+    }
+    
+    if (tab?.id !== undefined) {
+      // The batch was undone while this tab was being created
+      if (undoneBatchIds.delete(target.batchId)) {
+        browserAPI.tabs.remove(tab.id);
+        recordHistory(url, target, 'undone');
+        return;
+      }
+      
+      const openedBatch = recentBatches.find(recent => recent.batchId === target.batchId);
+      if (openedBatch) {
+        openedBatch.tabIds.push(tab.id);
+        updateUndoMenu();
+      }
+      
+      // Lazy tabs in Chrome start loading, so they count against the loading limit until discarded;
+      // Firefox creates them discarded
+      if (tab.status !== 'complete' && !(lazy && isFirefox)) {
+        loadingTabs.set(tab.id, Date.now());
+      }
+      if (lazy && !isFirefox) {
+        discardWhenCommitted(tab.id);
+      }
+      
+      batch.lastTabId = tab.id;
+      if (target.sourceTabId !== undefined) {
+        lastOpenedFromTab.set(target.sourceTabId, tab.id);
+      }
+      
+      if (target.group) {
+        await addTabToGroup(tab, target, batch);
+      }
+    }
+    recordHistory(url, target, 'opened');
+  } catch (err) {
+    console.error('Error opening tab:', err);
+    recordHistory(url, target, 'failed');
+  }
+}
+
+/**
+ * Add a URL handed to a new tab to the history, unless keeping history is turned off
+ */
+function recordHistory(url: string, target: TabTarget, outcome: OpenOutcome): void {
+  if (!settings.keepHistory) {
+    return;
+  }
+  
+  const entry: HistoryEntry = {
+    url,
+    openedAt: Date.now(),
+    sourceUrl: target.sourceUrl,
+    sourceTitle: target.sourceTitle,
+    // Entries queued before triggers were recorded count as selections
+    trigger: target.trigger || 'selection',
+    outcome
+  };
+  updateHistory(entries => [entry, ...entries]);
+}
+
+/**
+ * Change the stored history and prune it to the retention limits
+ * Changes run one after another, each on the history as the previous one left it
+ */
+function updateHistory(change: (entries: HistoryEntry[]) => HistoryEntry[]): void {
+  historyWrite = historyWrite.then(async () => {
+    try {
+      const items = await callBrowserAPI<{ [key: string]: unknown }>(callback =>
+        browserAPI.storage.local.get(HISTORY_STORAGE_KEY, callback)
+      );
+      const stored = items[HISTORY_STORAGE_KEY];
+      const entries = Array.isArray(stored) ? stored.filter(isHistoryEntry) : [];
+      
+      const history = pruneHistory(change(entries), settings.historyMaxEntries, settings.historyMaxDays);
+      await callBrowserAPI<void>(callback =>
+        browserAPI.storage.local.set({ [HISTORY_STORAGE_KEY]: history }, callback)
+      );
+    } catch (err) {
+      console.error('Error saving the history:', err);
+    }
+  });
+}
+
+// History outcome of each way of handling a URL that is already open
+const DUPLICATE_OUTCOMES: Record<Exclude<DuplicateTabAction, 'open'>, OpenOutcome> = {
+  focus: 'focused',
+  reload: 'reloaded',
+  skip: 'skipped'
+};
+
+/**
+ * Canonical form of a URL for spotting duplicates: ignores the fragment, trailing slashes
+ * and, when stripping is on, the configured tracking parameters
+ */
+function getCanonicalTabUrl(url: string): string {
+  return getCanonicalUrl(url, settings.stripTrackingParams ? settings.trackingParams : []);
+}
+
+/**
+ * Look for an open tab showing the same canonical URL and switch to it, reload it or skip the URL
+ * In Firefox only tabs in the same container count, since another container has other logins
+ *
+ * @param cookieStoreId Container the URL would open in
+ * @returns true if an existing tab took the place of a new one
+ */
+async function handleDuplicateTab(url: string, cookieStoreId?: string): Promise<boolean> {
+  const canonical = getCanonicalTabUrl(url);
+  const tabs = await callBrowserAPI<chrome.tabs.Tab[]>(callback => browserAPI.tabs.query({}, callback));
+  const existing = tabs.find(tab => {
+    const tabUrl = tab.pendingUrl || tab.url;
+    return !!tabUrl &&
+      getCanonicalTabUrl(tabUrl) === canonical &&
+      (!cookieStoreId || getTabContainer(tab) === cookieStoreId);
+  });
+  if (existing?.id === undefined) {
+    return false;
+  }
+  
+  const tabId = existing.id;
+  if (settings.debugMode) {
+    console.log(`${url} is already open in tab ${tabId}, action: ${settings.duplicateTabs}`);
+  }
+  
+  if (settings.duplicateTabs === 'focus') {
+    await callBrowserAPI<chrome.tabs.Tab | undefined>(callback =>
+      browserAPI.tabs.update(tabId, { active: true }, callback)
+    );
+    await callBrowserAPI<chrome.windows.Window>(callback =>
+      browserAPI.windows.update(existing.windowId, { focused: true }, callback)
+    );
+  } else if (settings.duplicateTabs === 'reload') {
+    await callBrowserAPI<void>(callback => browserAPI.tabs.reload(tabId, {}, callback));
+  }
+  
+  return true;
+}
+
+/**
+ * Placeholder title for a tab created discarded, the address without its scheme as browsers show it
+ */
+function getLazyTabTitle(url: string): string {
+  return url.replace(/^[a-z][a-z0-9+.-]*:\/\//i, '');
+}
+
+/**
+ * Discard a lazy tab in Chrome, which can't create tabs discarded
+ * The tab is discarded as soon as its address commits, before the page itself loads, so a discarded tab
+ * still knows what to load when focused; after LAZY_TAB_DISCARD_TIMEOUT it is discarded regardless
+ */
+function discardWhenCommitted(tabId: number): void {
+  let discarded = false;
+  
+  const discard = () => {
+    if (discarded) {
+      return;
+    }
+    discarded = true;
+    clearTimeout(timeout);
+    browserAPI.tabs.onUpdated.removeListener(onUpdated);
+    
+    browserAPI.tabs.discard(tabId, () => {
+      loadingTabs.delete(tabId);
+      // Fails if the tab was focused or closed in the meantime, which is fine
+      const err = browserAPI.runtime.lastError;
+      if (err && settings.debugMode) {
+        console.log('Lazy tab not discarded:', err.message);
+      }
+    });
+  };
+  
+  // Before the commit a new tab's url is still empty, with the address it is heading for as pendingUrl
+  const hasCommitted = (tab: chrome.tabs.Tab) => !!tab.url && tab.url !== 'about:blank';
+  
+  const onUpdated = (updatedTabId: number, changeInfo: chrome.tabs.TabChangeInfo, tab: chrome.tabs.Tab) => {
+    if (updatedTabId === tabId && (hasCommitted(tab) || changeInfo.status === 'complete')) {
+      discard();
+    }
+  };
+  
+  const timeout = setTimeout(discard, LAZY_TAB_DISCARD_TIMEOUT);
+  browserAPI.tabs.onUpdated.addListener(onUpdated);
+  
+  // The address may have committed before the listener was added
+  browserAPI.tabs.get(tabId, (tab) => {
+    if (!browserAPI.runtime.lastError && tab && hasCommitted(tab)) {
+      discard();
+    }
+  });
+}
+
+/**
+ * Pick the container a URL opens in (Firefox): the one picked from the context menu,
+ * then the first matching container rule, then the source tab's container
+ * Private windows can't hold container tabs, so rules are skipped there
+ */
+async function getContainerForUrl(url: string, target: TabTarget): Promise<string | undefined> {
+  if (!getContainersAPI() || target.containerPicked || target.cookieStoreId === PRIVATE_COOKIE_STORE_ID) {
+    return target.cookieStoreId;
+  }
+  
+  const rule = findContainerRule(url, settings.containerRules.filter(isContainerRule));
+  if (!rule) {
+    return target.cookieStoreId;
+  }
+  
+  const name = rule.container.trim().toLowerCase();
+  const container = (await getContainers()).find(identity => identity.name.toLowerCase() === name);
+  if (!container) {
+    console.warn(`Container rule for ${rule.site} names a container that doesn't exist:`, rule.container);
+    return target.cookieStoreId;
+  }
+  
+  if (settings.debugMode) {
+    console.log(`Opening ${url} in container ${container.name} (rule ${rule.site})`);
+  }
+  return container.cookieStoreId;
+}
+
+/**
+ * Put a new tab in its batch's tab group (creating and naming the group for the first tab),
+ * or in the source tab's group for single opens
+ * Skipped where tab groups are unavailable (Firefox) and for pinned tabs, which can't be grouped
+ */
+async function addTabToGroup(tab: chrome.tabs.Tab, target: TabTarget, batch: BatchPlacement): Promise<void> {
+  if (!supportsTabGroups() || tab.id === undefined || tab.pinned) {
+    return;
+  }
+  const tabId = tab.id;
+  
+  try {
+    if (target.group === 'source') {
+      const sourceTab = await getTabIfOpen(target.sourceTabId);
+      if (sourceTab && sourceTab.groupId !== -1 && sourceTab.windowId === tab.windowId) {
+        await callBrowserAPI<number>(callback =>
+          browserAPI.tabs.group({ groupId: sourceTab.groupId, tabIds: tabId }, callback)
+        );
+      }
+      return;
+    }
+    
+    if (batch.groupId !== undefined) {
+      const groupId = batch.groupId;
+      await callBrowserAPI<number>(callback => browserAPI.tabs.group({ groupId, tabIds: tabId }, callback));
+      return;
+    }
+    
+    const groupId = await callBrowserAPI<number>(callback =>
+      browserAPI.tabs.group({ tabIds: tabId, createProperties: { windowId: tab.windowId } }, callback)
+    );
+    batch.groupId = groupId;
+    
+    const sourceTab = await getTabIfOpen(target.sourceTabId);
+    await callBrowserAPI<chrome.tabGroups.TabGroup | undefined>(callback =>
+      browserAPI.tabGroups.update(groupId, {
+        title: formatGroupTitle(settings.groupTitleTemplate, sourceTab, target.batchSize),
+        color: isTabGroupColor(settings.groupColor) ? settings.groupColor : 'grey',
+        collapsed: settings.groupCollapsed
+      }, callback)
+    );
+  } catch (err) {
+    // The tab still opened, it just isn't grouped
+    console.error('Error grouping tab:', err);
+  }
+}
+
+/**
+ * Work out the window, position and opener for a new tab from the tab placement setting
+ * Later tabs of a batch go after the previous one, so multi-URL batches keep their order
+ */
+async function getTabPlacement(target: TabTarget, batch: BatchPlacement): Promise<chrome.tabs.CreateProperties> {
+  const placement = settings.tabPlacement;
+  
+  if (placement === 'newWindow') {
+    return { windowId: batch.windowId };
+  }
+  
+  const sourceTab = await getTabIfOpen(target.sourceTabId);
+  const opener: chrome.tabs.CreateProperties = sourceTab ? { openerTabId: sourceTab.id } : {};
+  
+  if (placement === 'pinned') {
+    return { ...opener, pinned: true };
+  }
+  
+  if (placement === 'end') {
+    const tabs = await callBrowserAPI<chrome.tabs.Tab[]>(callback =>
+      sourceTab
+        ? browserAPI.tabs.query({ windowId: sourceTab.windowId }, callback)
+        : browserAPI.tabs.query({ lastFocusedWindow: true }, callback)
+    );
+    return { ...opener, index: tabs.length };
+  }
+  
+  if (placement === 'adjacent' || placement === 'afterLastOpened') {
+    const previousTab = await getTabIfOpen(batch.lastTabId) ||
+      (placement === 'afterLastOpened' && target.sourceTabId !== undefined
+        ? await getTabIfOpen(lastOpenedFromTab.get(target.sourceTabId))
+        : undefined) ||
+      sourceTab;
+    
+    if (previousTab && (!sourceTab || previousTab.windowId === sourceTab.windowId)) {
+      return { ...opener, windowId: previousTab.windowId, index: previousTab.index + 1 };
+    }
+    return opener;
+  }
+  
+  // Let the browser decide
+  return {};
+}
+
+/**
+ * Look up a tab, or undefined if it has been closed
+ */
+async function getTabIfOpen(tabId: number | undefined): Promise<chrome.tabs.Tab | undefined> {
+  if (tabId === undefined) {
+    return undefined;
+  }
+  
+  try {
+    return await callBrowserAPI<chrome.tabs.Tab>(callback => browserAPI.tabs.get(tabId, callback));
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Run a callback-style browser API call as a promise that rejects on runtime.lastError
+ */
+function callBrowserAPI<T>(call: (callback: (result: T) => void) => void): Promise<T> {
+  return new Promise((resolve, reject) => {
+    call((result) => {
       const err = browserAPI.runtime.lastError;
       if (err) {
-        console.error('Error opening tab:', err);
+        reject(err);
+      } else {
+        resolve(result);
       }
-      resolve();
     });
   });
 } 
\ No newline at end of file
@@ -0,0 +1,143 @@
+/**
+ * Confirmation dialog for large URL batches
+ *
+ * The background script opens this page in a popup window when a selection holds more URLs
+ * than the confirmation threshold. It lists them with checkboxes and opens only the checked ones.
+ */
+
+import { browserAPI, safeBrowserCall } from '../utils/browserAPI';
+
+// The batch this dialog is for, passed by the background script in the query string
+const batchId = Number(new URLSearchParams(location.search).get('batch'));
+
+// DOM elements
+const confirmTitle = document.getElementById('confirmTitle') as HTMLHeadingElement;
+const confirmSummary = document.getElementById('confirmSummary') as HTMLParagraphElement;
+const urlList = document.getElementById('urlList') as HTMLUListElement;
+const selectAllButton = document.getElementById('selectAll') as HTMLButtonElement;
+const selectNoneButton = document.getElementById('selectNone') as HTMLButtonElement;
+const cancelButton = document.getElementById('cancelBatch') as HTMLButtonElement;
+const confirmButton = document.getElementById('confirmBatch') as HTMLButtonElement;
+
+// Load the batch when the dialog opens
+document.addEventListener('DOMContentLoaded', loadBatch);
+
+// Add event listeners
+selectAllButton.addEventListener('click', () => setAllChecked(true));
+selectNoneButton.addEventListener('click', () => setAllChecked(false));
+cancelButton.addEventListener('click', cancelBatch);
+confirmButton.addEventListener('click', confirmBatch);
+urlList.addEventListener('change', updateSelection);
+document.addEventListener('keydown', (event) => {
+  if (event.key === 'Escape') {
+    cancelBatch();
+  }
+});
+
+/**
+ * Fetch the batch from the background script and list its URLs
+ */
+function loadBatch(): void {
+  browserAPI.runtime.sendMessage({ action: 'getPendingBatch', batchId }, (response) => {
+    const err = browserAPI.runtime.lastError;
+    if (err || !response || !Array.isArray(response.urls)) {
+      // The batch was answered elsewhere, or it was lost with the background script
+      showBatchUnavailable('Nothing to Open');
+      return;
+    }
+    
+    const urls: string[] = response.urls;
+    urls.forEach(url => {
+      const item = document.createElement('li');
+      const label = document.createElement('label');
+      const checkbox = document.createElement('input');
+      checkbox.type = 'checkbox';
+      checkbox.checked = true;
+      checkbox.value = url;
+      
+      const text = document.createElement('span');
+      text.textContent = url;
+      
+      label.append(checkbox, text);
+      item.appendChild(label);
+      urlList.appendChild(item);
+    });
+    
+    confirmTitle.textContent = `Open ${urls.length} Links?`;
+    confirmSummary.textContent = response.total > urls.length
+      ? `The selection holds ${response.total} links; only the first ${urls.length} are listed (batch limit in Advanced Settings). Uncheck any you don't want.`
+      : `The selection holds ${urls.length} links. Uncheck any you don't want.`;
+    updateSelection();
+    confirmButton.focus();
+  });
+}
+
+/**
+ * Tell the user the batch can't be opened from this dialog any more, leaving only the close button
+ */
+function showBatchUnavailable(title: string): void {
+  confirmTitle.textContent = title;
+  confirmSummary.textContent = 'These links are no longer waiting to be opened. Select them again to retry.';
+  [selectAllButton, selectNoneButton, confirmButton].forEach(button => button.disabled = true);
+  cancelButton.textContent = 'Close';
+}
+
+/**
+ * Get the checkboxes of the listed URLs
+ */
+function getCheckboxes(): HTMLInputElement[] {
+  return Array.from(urlList.querySelectorAll<HTMLInputElement>('input[type="checkbox"]'));
+}
+
+/**
+ * Check or uncheck every URL
+ */
+function setAllChecked(checked: boolean): void {
+  getCheckboxes().forEach(checkbox => checkbox.checked = checked);
+  updateSelection();
+}
+
+/**
+ * Dim unchecked URLs and show the number of tabs on the open button
+ */
+function updateSelection(): void {
+  const checkboxes = getCheckboxes();
+  checkboxes.forEach(checkbox => {
+    checkbox.closest('li')?.classList.toggle('unchecked', !checkbox.checked);
+  });
+  
+  const count = checkboxes.filter(checkbox => checkbox.checked).length;
+  confirmButton.textContent = count === 1 ? 'Open 1 Tab' : `Open ${count} Tabs`;
+  confirmButton.disabled = count === 0;
+}
+
+/**
+ * Open the checked URLs and close the dialog
+ * If the background script can't open them, the dialog stays open and says so
+ */
+function confirmBatch(): void {
+  const urls = getCheckboxes()
+    .filter(checkbox => checkbox.checked)
+    .map(checkbox => checkbox.value);
+  
+  confirmButton.disabled = true;
+  browserAPI.runtime.sendMessage({ action: 'confirmBatch', batchId, urls }, (response) => {
+    const err = browserAPI.runtime.lastError;
+    if (err || !response || !response.success) {
+      if (err) {
+        console.error('Error confirming batch:', err);
+      }
+      showBatchUnavailable('Could Not Open Links');
+      return;
+    }
+    window.close();
+  });
+}
+
+/**
+ * Drop the batch and close the dialog
+ */
+function cancelBatch(): void {
+  safeBrowserCall(() => browserAPI.runtime.sendMessage({ action: 'cancelBatch', batchId }));
+  window.close();
+}
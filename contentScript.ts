@@ -2,6 +2,9 @@
  * Content script to detect when text is selected and validate if it looks like a URL
  */
 
+import { extractUrls } from './utils/urlChecker';
+import { findMatchingRule } from './utils/exclusionRules';
+
 // TypeScript declarations for browser API
 declare const browser: typeof chrome;
 
@@ -28,6 +31,15 @@ declare const browser: typeof chrome;
   let CLICK_DISTANCE_THRESHOLD = 5; // pixels - default, will be updated from settings
   let CLICK_TIME_THRESHOLD = 300; // ms - default, will be updated from settings
 
+  // Selection change tracking for the context menu URL count
+  let selectionChangeTimer: number | undefined;
+  let lastReportedSelection = '';
+  let lastReportedLinkCount = 0;
+  const SELECTION_CHANGE_DELAY = 200; // ms
+
+  // Messages that read the page, which a disabled page doesn't answer
+  const PAGE_CONTENT_ACTIONS = ['openMultipleFromSelection', 'getSelectedLinks', 'getFocusedContent'];
+
   // Request ID tracking to prevent duplicate opens
   let lastRequestId: string | null = null;
 
@@ -35,6 +47,13 @@ declare const browser: typeof chrome;
   let currentSelection: string = '';
   let hasMultipleUrls: boolean = false;
   let urlPatternType: string = 'standard'; // default, will be updated from settings
+  let resolveRelativeUrls: boolean = false; // default, will be updated from settings
+
+  // Pages matching the disabled page rules get no listeners at all.
+  // The page counts as disabled until the settings have loaded and show it isn't
+  let isPageDisabled = true;
+  let disabledPageRules: string[] | null = null; // null until the settings have loaded
+  let listenersAttached = false;
 
   // Debug mode for troubleshooting
   let DEBUG = false; // default, will be updated from settings
@@ -74,19 +93,66 @@ declare const browser: typeof chrome;
     return errorMsg;
   }
 
-  // Remove all event listeners in case of context invalidation
+  // Add the page event listeners
+  function addAllListeners(): void {
+    if (listenersAttached) return;
+    listenersAttached = true;
+    
+    document.addEventListener('mousedown', handleMouseDown, true);
+    document.addEventListener('mouseup', handleMouseUp, true);
+    document.addEventListener('contextmenu', handleContextMenu, true);
+    document.addEventListener('mousemove', handleMouseMove, { passive: true });
+    document.addEventListener('selectionchange', handleSelectionChange);
+    debugLog('Listeners added');
+  }
+
+  // Remove all event listeners in case of context invalidation or a disabled page
   function removeAllListeners(): void {
+    listenersAttached = false;
+    
     try {
       document.removeEventListener('mousedown', handleMouseDown, true);
       document.removeEventListener('mouseup', handleMouseUp, true);
       document.removeEventListener('contextmenu', handleContextMenu, true);
       document.removeEventListener('mousemove', handleMouseMove);
-      debugLog('All listeners removed due to invalid context');
+      document.removeEventListener('selectionchange', handleSelectionChange);
+      debugLog('All listeners removed');
     } catch (e) {
       console.error('Error removing listeners:', e);
     }
   }
 
+  /**
+   * Check the disabled page rules again after the page's URL changed without a reload
+   */
+  function recheckDisabledPage(): void {
+    if (disabledPageRules !== null) {
+      applyDisabledPages(disabledPageRules);
+    }
+  }
+
+  /**
+   * Go passive on pages matching the disabled page rules, and back to normal when they stop matching
+   */
+  function applyDisabledPages(rules: string[]): void {
+    try {
+      disabledPageRules = rules;
+      const match = findMatchingRule(location.href, rules);
+      isPageDisabled = !!match;
+      
+      if (match) {
+        if (listenersAttached) {
+          removeAllListeners();
+        }
+        debugLog(`Page disabled by rule ${match.index + 1} (${match.rule}): ${match.reason}`);
+      } else if (isContextValid) {
+        addAllListeners();
+      }
+    } catch (e) {
+      handleError(e);
+    }
+  }
+
   // Initialize extension state
   function checkExtensionState(): void {
     try {
@@ -121,13 +187,13 @@ declare const browser: typeof chrome;
   }
 
   /**
-   * Check if text contains URLs - more comprehensive pattern
+   * Check if text contains URLs - uses the same extractor as the background script
    */
   function containsUrls(text: string): boolean {
     try {
-      // More comprehensive URL pattern
-      const urlPattern = /https?:\/\/[^\s]+|www\.[^\s]+\.[a-z]{2,}|[a-z0-9][-a-z0-9]+\.[a-z]{2,}\.[a-z]{2,}/i;
-      return urlPattern.test(text);
+      return extractUrls(text, urlPatternType, {
+        baseUrl: resolveRelativeUrls ? document.baseURI : undefined
+      }).length > 0;
     } catch (e) {
       handleError(e);
       return false;
@@ -216,6 +282,61 @@ declare const browser: typeof chrome;
     }
   }
 
+  /**
+   * Collects the addresses of the links intersecting the selection, in document order and without repeats
+   * Only http(s) links count; links back to this page (like a table of contents' #anchors) are left out
+   */
+  function getSelectedLinks(): string[] {
+    const selection = window.getSelection();
+    if (!selection || selection.isCollapsed) {
+      return [];
+    }
+    
+    const pageUrl = location.href.split('#')[0];
+    const links: string[] = [];
+    
+    for (let index = 0; index < selection.rangeCount; index++) {
+      const range = selection.getRangeAt(index);
+      const container = range.commonAncestorContainer;
+      const root = container instanceof Element ? container : container.parentElement;
+      if (!root) {
+        continue;
+      }
+      
+      // A selection inside a single link has no links below its common ancestor
+      const enclosing = root.closest('a[href]');
+      const anchors = enclosing ? [enclosing] : Array.from(root.querySelectorAll('a[href]'));
+      
+      anchors.forEach(anchor => {
+        if (!(anchor instanceof HTMLAnchorElement) || !range.intersectsNode(anchor)) {
+          return;
+        }
+        
+        const href = anchor.href;
+        if (/^https?:$/.test(anchor.protocol) && shouldProcessLink(href) &&
+            href.split('#')[0] !== pageUrl && !links.includes(href)) {
+          links.push(href);
+        }
+      });
+    }
+    
+    return links;
+  }
+
+  /**
+   * Gets the selected text, including a selection inside a text field
+   */
+  function getSelectedText(): string {
+    const active = document.activeElement;
+    if (active instanceof HTMLTextAreaElement ||
+        (active instanceof HTMLInputElement && ['text', 'search', 'url'].includes(active.type))) {
+      return active.value.slice(active.selectionStart || 0, active.selectionEnd || 0).trim();
+    }
+    
+    const selection = window.getSelection();
+    return selection ? selection.toString().trim() : '';
+  }
+
   /**
    * Handles mouse down events
    */
@@ -301,7 +422,8 @@ declare const browser: typeof chrome;
             // Send to background script for validation
             safeBrowserCall(browserAPI.runtime.sendMessage, {
               action: 'checkSelection',
-              text: currentSelection
+              text: currentSelection,
+              baseUrl: document.baseURI
             }).catch(handleError);
           } else {
             // Clear selection state if nothing is selected
@@ -317,6 +439,34 @@ declare const browser: typeof chrome;
     }
   }
 
+  /**
+   * Reports selection changes to the background script (debounced),
+   * so the context menu can show how many URLs and links the selection holds
+   */
+  function handleSelectionChange(): void {
+    if (!isContextValid || !isExtensionEnabled) return;
+    
+    window.clearTimeout(selectionChangeTimer);
+    selectionChangeTimer = window.setTimeout(() => {
+      try {
+        const selectedText = window.getSelection()?.toString().trim() || '';
+        const linkCount = getSelectedLinks().length;
+        if (selectedText === lastReportedSelection && linkCount === lastReportedLinkCount) return;
+        lastReportedSelection = selectedText;
+        lastReportedLinkCount = linkCount;
+        
+        safeBrowserCall(browserAPI.runtime.sendMessage, {
+          action: 'selectionChanged',
+          text: selectedText,
+          linkCount: linkCount,
+          baseUrl: document.baseURI
+        }).catch(handleError);
+      } catch (e) {
+        handleError(e);
+      }
+    }, SELECTION_CHANGE_DELAY);
+  }
+
   /**
    * Process a link element with the direct link opening feature
    */
@@ -355,8 +505,9 @@ declare const browser: typeof chrome;
 
   /**
    * Send selected text with multiple URLs to be opened
+   * @param refang Whether defanged URLs (hxxp://, [.]) should be turned back into real ones
    */
-  function processMultipleUrls(text?: string): void {
+  function processMultipleUrls(text?: string, refang: boolean = false): void {
     if (!isContextValid) return;
     
     try {
@@ -373,7 +524,9 @@ declare const browser: typeof chrome;
       // Send message to open multiple URLs
       safeBrowserCall(browserAPI.runtime.sendMessage, {
         action: 'openMultipleUrls',
-        text: textToProcess
+        text: textToProcess,
+        refang: refang,
+        baseUrl: document.baseURI
       })
       .then((response: any) => {
         debugLog('Response from opening multiple URLs:', response);
@@ -434,7 +587,8 @@ declare const browser: typeof chrome;
         // If direct open is enabled, send to background script
         safeBrowserCall(browserAPI.runtime.sendMessage, {
           action: 'checkSelection',
-          text: currentSelection
+          text: currentSelection,
+          baseUrl: document.baseURI
         })
         .then((response: any) => {
           // If we should handle the selected text directly
@@ -484,7 +638,14 @@ declare const browser: typeof chrome;
               urlPatternType = response.urlPatternType;
               debugLog('URL pattern type set to:', urlPatternType);
             }
+            
+            if (typeof response.resolveRelativeUrls === 'boolean') {
+              resolveRelativeUrls = response.resolveRelativeUrls;
+            }
           }
+          
+          // Listeners are only added now that the page is known not to be disabled
+          applyDisabledPages(Array.isArray(response?.disabledPages) ? response.disabledPages : []);
         })
         .catch(handleError);
     } catch (e) {
@@ -507,6 +668,11 @@ declare const browser: typeof chrome;
         isExtensionEnabled = message.enabled;
         sendResponse({ success: true });
       }
+      // A disabled page hands nothing over, whichever way it is asked
+      else if (isPageDisabled && PAGE_CONTENT_ACTIONS.includes(message.action)) {
+        debugLog('Page disabled, ignoring:', message.action);
+        sendResponse({ success: false, error: 'Page disabled' });
+      }
       // Add handler for open multiple URLs request from context menu
       else if (message.action === 'openMultipleFromSelection') {
         // Use the text from the message if provided, otherwise use current selection
@@ -514,7 +680,7 @@ declare const browser: typeof chrome;
         debugLog('Opening multiple URLs from selection via context menu:', textToProcess);
         
         if (textToProcess) {
-          processMultipleUrls(textToProcess);
+          processMultipleUrls(textToProcess, message.refang === true);
           // Send response to confirm handling
           sendResponse({ success: true });
         } else {
@@ -522,6 +688,23 @@ declare const browser: typeof chrome;
           sendResponse({ success: false, error: 'No text available' });
         }
       }
+      // Hand over the links in the selected region for the "Open Links in Selection" menu entry
+      else if (message.action === 'getSelectedLinks') {
+        const links = getSelectedLinks();
+        debugLog('Links in selection:', links);
+        sendResponse({ links: links });
+      }
+      // Report the selection and the focused link for the keyboard shortcuts
+      else if (message.action === 'getFocusedContent') {
+        const active = document.activeElement as HTMLElement | null;
+        const link = active && active !== document.body ? extractLinkInfo(active) : null;
+        
+        sendResponse({
+          selection: getSelectedText(),
+          focusedLink: link && link.href && shouldProcessLink(link.href) ? link.href : null,
+          baseUrl: document.baseURI
+        });
+      }
       // Add handler for advanced settings updates
       else if (message.action === 'advancedSettingsUpdated') {
         if (message.settings) {
@@ -550,6 +733,14 @@ declare const browser: typeof chrome;
             debugLog('URL pattern type updated:', urlPatternType);
           }
           
+          if (typeof message.settings.resolveRelativeUrls === 'boolean') {
+            resolveRelativeUrls = message.settings.resolveRelativeUrls;
+          }
+          
+          if (Array.isArray(message.settings.disabledPages)) {
+            applyDisabledPages(message.settings.disabledPages);
+          }
+          
           sendResponse({ success: true });
         } else {
           sendResponse({ success: false, error: 'No settings provided' });
@@ -573,7 +764,7 @@ declare const browser: typeof chrome;
   let lastMouseX = 0;
   let lastMouseY = 0;
 
-  // Initialize and add event listeners
+  // Initialize; the event listeners are added once the settings show the page isn't disabled
   function initialize(): void {
     // Check extension state
     checkExtensionState();
@@ -581,11 +772,9 @@ declare const browser: typeof chrome;
     // Load advanced settings
     loadAdvancedSettings();
     
-    // Add event listeners only if context is valid
-    document.addEventListener('mousedown', handleMouseDown, true);
-    document.addEventListener('mouseup', handleMouseUp, true);
-    document.addEventListener('contextmenu', handleContextMenu, true);
-    document.addEventListener('mousemove', handleMouseMove, { passive: true });
+    // Same-document navigation can move the page in or out of the disabled pages
+    window.addEventListener('popstate', recheckDisabledPage);
+    window.addEventListener('hashchange', recheckDisabledPage);
     
     debugLog('Content script initialized');
   }
@@ -0,0 +1,23 @@
+/**
+ * Offscreen document for reading the clipboard in Chrome
+ *
+ * Chrome's background service worker has no DOM, so it can't read the clipboard itself.
+ * For the "Open Clipboard URLs" shortcut it opens this document, which pastes the clipboard
+ * into a textarea (allowed by the clipboardRead permission) and sends the text back.
+ */
+
+import { browserAPI } from '../utils/browserAPI';
+
+const clipboardText = document.getElementById('clipboardText') as HTMLTextAreaElement;
+
+browserAPI.runtime.onMessage.addListener((message, sender, sendResponse) => {
+  if (message.action !== 'readClipboard') {
+    return false;
+  }
+  
+  clipboardText.value = '';
+  clipboardText.focus();
+  document.execCommand('paste');
+  sendResponse({ text: clipboardText.value });
+  return false;
+});
@@ -2,54 +2,244 @@
  * Popup script for the Open Link in New Tab extension
  */
 
-import { browserAPI, safeBrowserCall, getStorage, setStorage } from '../utils/browserAPI';
+import { browserAPI, isFirefox, safeBrowserCall, getStorage, setStorage } from '../utils/browserAPI';
+import { DEFAULT_TRACKING_PARAMS, isValidTrackingRule } from '../utils/urlCleaner';
+import { isValidRedirectPattern } from '../utils/redirectUnwrapper';
+import { RewriteRule, applyRewriteRules, validateRewriteRule, isRewriteRule } from '../utils/rewriteRules';
+import { SmartPattern, extractUrlsWithFormats, normalizeUrl, validateSmartPattern } from '../utils/urlChecker';
+import { ExclusionMode, checkExclusion, normalizeExclusionRule, validateExclusionRule } from '../utils/exclusionRules';
+import { SiteOverride, SiteSettings, findSiteOverride, isSiteOverride, sameSiteSettings } from '../utils/siteOverrides';
+import { supportsTabGroups } from '../utils/tabGroups';
+import { ContainerRule, getContainers, getContainersAPI, isContainerRule, validateContainerRule } from '../utils/containers';
+import {
+  HistoryEntry,
+  OpenTrigger,
+  OpenOutcome,
+  HISTORY_STORAGE_KEY,
+  TRIGGER_LABELS,
+  OUTCOME_LABELS,
+  filterHistory,
+  isHistoryEntry
+} from '../utils/openHistory';
 
 // Define settings interface
 interface ExtensionSettings {
   enableExtension: boolean;
   activateTabs: boolean;
+  tabPlacement: string;
+  duplicateTabs: string;
+  groupBatches: boolean;
+  groupTitleTemplate: string;
+  groupColor: string;
+  groupCollapsed: boolean;
+  joinSourceGroup: boolean;
   supportMultipleUrls: boolean;
   excludedDomains: string[];
+  exclusionMode: ExclusionMode;
+  disabledPages: string[];
+  siteOverrides: SiteOverride[];
+  containerRules: ContainerRule[];
+  rewriteRules: RewriteRule[];
+  smartPatterns: SmartPattern[];
   directLinkOpen: boolean;
+  stripTrackingParams: boolean;
+  trackingParams: string[];
+  unwrapRedirects: boolean;
+  redirectPatterns: string[];
   debounceThreshold: number;
   clickDistanceThreshold: number;
   clickTimeThreshold: number;
   debugMode: boolean;
   urlPatternType: string;
+  resolveRelativeUrls: boolean;
+  confirmThreshold: number;
+  maxBatchSize: number;
+  openDelay: number;
+  maxLoadingTabs: number;
+  lazyBatches: boolean;
+  lazyAfter: number;
+  keepHistory: boolean;
+  historyMaxEntries: number;
+  historyMaxDays: number;
 }
 
 // Default settings
 const DEFAULT_SETTINGS: ExtensionSettings = {
   enableExtension: true,
   activateTabs: false,
+  tabPlacement: 'default',
+  duplicateTabs: 'open',
+  groupBatches: false,
+  groupTitleTemplate: '{title}',
+  groupColor: 'grey',
+  groupCollapsed: false,
+  joinSourceGroup: false,
   supportMultipleUrls: true,
   excludedDomains: [],
+  exclusionMode: 'exclude',
+  disabledPages: [],
+  siteOverrides: [],
+  containerRules: [],
+  rewriteRules: [],
+  smartPatterns: [],
   directLinkOpen: true,  // Default to true for direct link opening
+  stripTrackingParams: true,
+  trackingParams: DEFAULT_TRACKING_PARAMS,
+  unwrapRedirects: true,
+  redirectPatterns: [],
   // Advanced settings
   debounceThreshold: 500,
   clickDistanceThreshold: 5,
   clickTimeThreshold: 300,
   debugMode: false,
-  urlPatternType: 'standard'
+  urlPatternType: 'standard',
+  resolveRelativeUrls: false,
+  // Large batch safeguards (0 turns the confirmation, cap and loading limit off)
+  confirmThreshold: 10,
+  maxBatchSize: 100,
+  openDelay: 100,
+  maxLoadingTabs: 5,
+  lazyBatches: false,
+  lazyAfter: 5,
+  // History of opened URLs, kept in local storage (0 turns a retention limit off)
+  keepHistory: true,
+  historyMaxEntries: 500,
+  historyMaxDays: 30
 };
 
-// Current saved exclusion list
+// Key the background script saves the opening queue under
+const QUEUE_STORAGE_KEY = 'openingQueueState';
+
+// Most history entries listed at once; searching narrows down the rest
+const HISTORY_DISPLAY_LIMIT = 50;
+
+// The stored history, newest first
+let historyEntries: HistoryEntry[] = [];
+
+// Current saved exclusion list and mode
 let savedExclusionList: string[] = [];
+let savedExclusionMode: ExclusionMode = 'exclude';
+
+// Rewrite rules being edited, and the saved list for comparison
+let rewriteRules: RewriteRule[] = [];
+let savedRewriteRules: RewriteRule[] = [];
+
+// Container rules being edited, and the saved list for comparison
+let containerRules: ContainerRule[] = [];
+let savedContainerRules: ContainerRule[] = [];
+
+// Smart patterns being edited, and the saved list for comparison
+let smartPatterns: SmartPattern[] = [];
+let savedSmartPatterns: SmartPattern[] = [];
+
+// Saved site overrides, and the active tab's address they are edited for
+let siteOverrides: SiteOverride[] = [];
+let currentPageUrl: string | null = null;
+
+// Current saved list of pages the content script stays inactive on
+let savedDisabledPages: string[] = [];
+
+// Current saved tracking parameter list
+let savedTrackingParams: string[] = [];
+
+// Current saved custom redirect wrapper list
+let savedRedirectPatterns: string[] = [];
 
 // DOM elements
+const queueStatusElement = document.getElementById('queueStatus') as HTMLDivElement;
+const queueStatusText = document.getElementById('queueStatusText') as HTMLSpanElement;
+const clearQueueButton = document.getElementById('clearQueue') as HTMLButtonElement;
+const undoLastOpenButton = document.getElementById('undoLastOpen') as HTMLButtonElement;
 const enableExtensionToggle = document.getElementById('enableExtension') as HTMLInputElement;
 const directLinkOpenToggle = document.getElementById('directLinkOpen') as HTMLInputElement;
 const activateTabsToggle = document.getElementById('activateTabs') as HTMLInputElement;
+const tabPlacementSelect = document.getElementById('tabPlacement') as HTMLSelectElement;
+const duplicateTabsSelect = document.getElementById('duplicateTabs') as HTMLSelectElement;
+const groupBatchesToggle = document.getElementById('groupBatches') as HTMLInputElement;
+const groupTitleTemplateInput = document.getElementById('groupTitleTemplate') as HTMLInputElement;
+const groupColorSelect = document.getElementById('groupColor') as HTMLSelectElement;
+const groupCollapsedToggle = document.getElementById('groupCollapsed') as HTMLInputElement;
+const joinSourceGroupToggle = document.getElementById('joinSourceGroup') as HTMLInputElement;
+const tabGroupsUnavailableNote = document.getElementById('tabGroupsUnavailable') as HTMLParagraphElement;
+const containerSection = document.getElementById('containerSection') as HTMLDivElement;
+const containerNamesElement = document.getElementById('containerNames') as HTMLParagraphElement;
+const containerRulesList = document.getElementById('containerRulesList') as HTMLDivElement;
+const addContainerRuleButton = document.getElementById('addContainerRule') as HTMLButtonElement;
+const containerValidationFeedback = document.getElementById('containerValidationFeedback') as HTMLDivElement;
+const saveContainerRulesButton = document.getElementById('saveContainerRules') as HTMLButtonElement;
+const containerSaveStatus = document.getElementById('containerSaveStatus') as HTMLParagraphElement;
 const supportMultipleUrlsToggle = document.getElementById('supportMultipleUrls') as HTMLInputElement;
 const excludedDomainsTextarea = document.getElementById('excludedDomains') as HTMLTextAreaElement;
 const saveExclusionsButton = document.getElementById('saveExclusions') as HTMLButtonElement;
 const saveStatusElement = document.getElementById('saveStatus') as HTMLParagraphElement;
 const resetSettingsButton = document.getElementById('resetSettings') as HTMLButtonElement;
 const domainValidationFeedback = document.getElementById('domainValidationFeedback') as HTMLDivElement;
+const exclusionModeSelect = document.getElementById('exclusionMode') as HTMLSelectElement;
+const exclusionTestInput = document.getElementById('exclusionTestInput') as HTMLInputElement;
+const exclusionTestResult = document.getElementById('exclusionTestResult') as HTMLDivElement;
+const siteOverrideSiteElement = document.getElementById('siteOverrideSite') as HTMLElement;
+const saveSiteOverrideButton = document.getElementById('saveSiteOverride') as HTMLButtonElement;
+const clearSiteOverrideButton = document.getElementById('clearSiteOverride') as HTMLButtonElement;
+const siteOverrideSaveStatus = document.getElementById('siteOverrideSaveStatus') as HTMLParagraphElement;
 const addCurrentDomainButton = document.getElementById('addCurrentDomain') as HTMLButtonElement;
+const addDomainChoices = document.getElementById('addDomainChoices') as HTMLDivElement;
+const addDomainAsExclusionButton = document.getElementById('addDomainAsExclusion') as HTMLButtonElement;
+const addDomainAsDisabledPageButton = document.getElementById('addDomainAsDisabledPage') as HTMLButtonElement;
+const disabledPagesTextarea = document.getElementById('disabledPages') as HTMLTextAreaElement;
+const disabledPagesValidationFeedback = document.getElementById('disabledPagesValidationFeedback') as HTMLDivElement;
+const saveDisabledPagesButton = document.getElementById('saveDisabledPages') as HTMLButtonElement;
+const disabledPagesSaveStatus = document.getElementById('disabledPagesSaveStatus') as HTMLParagraphElement;
 const exportDomainsButton = document.getElementById('exportDomains') as HTMLButtonElement;
 const importDomainsButton = document.getElementById('importDomains') as HTMLButtonElement;
 const importFileInput = document.getElementById('importFile') as HTMLInputElement;
+const rewriteRulesList = document.getElementById('rewriteRulesList') as HTMLDivElement;
+const addRewriteRuleButton = document.getElementById('addRewriteRule') as HTMLButtonElement;
+const rewriteTestInput = document.getElementById('rewriteTestInput') as HTMLInputElement;
+const rewriteTestResult = document.getElementById('rewriteTestResult') as HTMLDivElement;
+const rewriteValidationFeedback = document.getElementById('rewriteValidationFeedback') as HTMLDivElement;
+const saveRewriteRulesButton = document.getElementById('saveRewriteRules') as HTMLButtonElement;
+const rewriteSaveStatus = document.getElementById('rewriteSaveStatus') as HTMLParagraphElement;
+const smartPatternsList = document.getElementById('smartPatternsList') as HTMLDivElement;
+const addSmartPatternButton = document.getElementById('addSmartPattern') as HTMLButtonElement;
+const smartPatternTestInput = document.getElementById('smartPatternTestInput') as HTMLInputElement;
+const smartPatternTestResult = document.getElementById('smartPatternTestResult') as HTMLDivElement;
+const smartPatternValidationFeedback = document.getElementById('smartPatternValidationFeedback') as HTMLDivElement;
+const saveSmartPatternsButton = document.getElementById('saveSmartPatterns') as HTMLButtonElement;
+const smartPatternSaveStatus = document.getElementById('smartPatternSaveStatus') as HTMLParagraphElement;
+const stripTrackingParamsToggle = document.getElementById('stripTrackingParams') as HTMLInputElement;
+const trackingParamsTextarea = document.getElementById('trackingParams') as HTMLTextAreaElement;
+const trackingValidationFeedback = document.getElementById('trackingValidationFeedback') as HTMLDivElement;
+const saveTrackingParamsButton = document.getElementById('saveTrackingParams') as HTMLButtonElement;
+const restoreTrackingParamsButton = document.getElementById('restoreTrackingParams') as HTMLButtonElement;
+const trackingSaveStatus = document.getElementById('trackingSaveStatus') as HTMLParagraphElement;
+const unwrapRedirectsToggle = document.getElementById('unwrapRedirects') as HTMLInputElement;
+const redirectPatternsTextarea = document.getElementById('redirectPatterns') as HTMLTextAreaElement;
+const redirectValidationFeedback = document.getElementById('redirectValidationFeedback') as HTMLDivElement;
+const saveRedirectPatternsButton = document.getElementById('saveRedirectPatterns') as HTMLButtonElement;
+const redirectSaveStatus = document.getElementById('redirectSaveStatus') as HTMLParagraphElement;
+const shortcutList = document.getElementById('shortcutList') as HTMLDivElement;
+const changeShortcutsButton = document.getElementById('changeShortcuts') as HTMLButtonElement;
+const shortcutStatus = document.getElementById('shortcutStatus') as HTMLParagraphElement;
+const keepHistoryToggle = document.getElementById('keepHistory') as HTMLInputElement;
+const historyMaxEntriesInput = document.getElementById('historyMaxEntries') as HTMLInputElement;
+const historyMaxDaysInput = document.getElementById('historyMaxDays') as HTMLInputElement;
+const historySearchInput = document.getElementById('historySearch') as HTMLInputElement;
+const historyTriggerFilter = document.getElementById('historyTriggerFilter') as HTMLSelectElement;
+const historyOutcomeFilter = document.getElementById('historyOutcomeFilter') as HTMLSelectElement;
+const historyList = document.getElementById('historyList') as HTMLDivElement;
+const historySummary = document.getElementById('historySummary') as HTMLParagraphElement;
+const clearHistoryButton = document.getElementById('clearHistory') as HTMLButtonElement;
+const historyStatus = document.getElementById('historyStatus') as HTMLParagraphElement;
+
+// Site override controls, keyed by the setting they replace on the current site
+const siteOverrideControls: Record<keyof SiteSettings, HTMLSelectElement | HTMLInputElement> = {
+  directLinkOpen: document.getElementById('overrideDirectLinkOpen') as HTMLSelectElement,
+  activateTabs: document.getElementById('overrideActivateTabs') as HTMLSelectElement,
+  urlPatternType: document.getElementById('overrideUrlPatternType') as HTMLSelectElement,
+  debounceThreshold: document.getElementById('overrideDebounceThreshold') as HTMLInputElement,
+  clickDistanceThreshold: document.getElementById('overrideClickDistanceThreshold') as HTMLInputElement,
+  clickTimeThreshold: document.getElementById('overrideClickTimeThreshold') as HTMLInputElement
+};
 
 // Advanced settings DOM elements
 const toggleAdvancedButton = document.getElementById('toggleAdvanced') as HTMLButtonElement;
@@ -62,30 +252,114 @@ const clickTimeThresholdSlider = document.getElementById('clickTimeThreshold') a
 const timeValueSpan = document.getElementById('timeValue') as HTMLSpanElement;
 const debugModeToggle = document.getElementById('debugMode') as HTMLInputElement;
 const urlPatternSelect = document.getElementById('urlPatternSelection') as HTMLSelectElement;
+const resolveRelativeUrlsToggle = document.getElementById('resolveRelativeUrls') as HTMLInputElement;
+const confirmThresholdSlider = document.getElementById('confirmThreshold') as HTMLInputElement;
+const confirmThresholdValueSpan = document.getElementById('confirmThresholdValue') as HTMLSpanElement;
+const maxBatchSizeSlider = document.getElementById('maxBatchSize') as HTMLInputElement;
+const maxBatchSizeValueSpan = document.getElementById('maxBatchSizeValue') as HTMLSpanElement;
+const openDelaySlider = document.getElementById('openDelay') as HTMLInputElement;
+const openDelayValueSpan = document.getElementById('openDelayValue') as HTMLSpanElement;
+const maxLoadingTabsSlider = document.getElementById('maxLoadingTabs') as HTMLInputElement;
+const maxLoadingTabsValueSpan = document.getElementById('maxLoadingTabsValue') as HTMLSpanElement;
+const lazyBatchesToggle = document.getElementById('lazyBatches') as HTMLInputElement;
+const lazyAfterSlider = document.getElementById('lazyAfter') as HTMLInputElement;
+const lazyAfterValueSpan = document.getElementById('lazyAfterValue') as HTMLSpanElement;
 const saveAdvancedButton = document.getElementById('saveAdvanced') as HTMLButtonElement;
 const advancedSaveStatus = document.getElementById('advancedSaveStatus') as HTMLParagraphElement;
 
 // Load settings when popup opens
 document.addEventListener('DOMContentLoaded', loadSettings);
 
+// Keep the opening queue status current while the popup is open
+document.addEventListener('DOMContentLoaded', updateQueueStatus);
+browserAPI.storage.onChanged.addListener((changes) => {
+  if (changes[QUEUE_STORAGE_KEY]) {
+    updateQueueStatus();
+  }
+  if (changes[HISTORY_STORAGE_KEY]) {
+    loadHistory();
+  }
+  // Keyboard shortcuts can flip these while the popup is open
+  if (changes.enableExtension) {
+    enableExtensionToggle.checked = changes.enableExtension.newValue !== false;
+  }
+  if (changes.directLinkOpen) {
+    directLinkOpenToggle.checked = changes.directLinkOpen.newValue !== false;
+  }
+});
+
+// List the keyboard shortcuts with their current bindings
+document.addEventListener('DOMContentLoaded', showShortcuts);
+
+// Show the history of opened links
+document.addEventListener('DOMContentLoaded', loadHistory);
+
 // Add event listeners
+clearQueueButton.addEventListener('click', clearQueue);
+undoLastOpenButton.addEventListener('click', undoLastOpen);
 enableExtensionToggle.addEventListener('change', updateSettings);
 directLinkOpenToggle.addEventListener('change', updateSettings);
 activateTabsToggle.addEventListener('change', updateSettings);
+tabPlacementSelect.addEventListener('change', updateSettings);
+duplicateTabsSelect.addEventListener('change', updateSettings);
+groupBatchesToggle.addEventListener('change', updateSettings);
+groupTitleTemplateInput.addEventListener('change', updateSettings);
+groupColorSelect.addEventListener('change', updateSettings);
+groupCollapsedToggle.addEventListener('change', updateSettings);
+joinSourceGroupToggle.addEventListener('change', updateSettings);
 supportMultipleUrlsToggle.addEventListener('change', updateSettings);
 saveExclusionsButton.addEventListener('click', saveExclusions);
 resetSettingsButton.addEventListener('click', resetSettings);
 excludedDomainsTextarea.addEventListener('input', validateDomains);
+exclusionModeSelect.addEventListener('change', validateDomains);
+exclusionTestInput.addEventListener('input', updateExclusionTest);
+Object.values(siteOverrideControls).forEach(control => control.addEventListener('input', checkSiteOverrideChanged));
+saveSiteOverrideButton.addEventListener('click', saveSiteOverride);
+clearSiteOverrideButton.addEventListener('click', clearSiteOverride);
 addCurrentDomainButton.addEventListener('click', addCurrentDomain);
+addDomainAsExclusionButton.addEventListener('click', () =>
+  addCurrentDomainTo(excludedDomainsTextarea, validateDomains, 'the exclusion list'));
+addDomainAsDisabledPageButton.addEventListener('click', () =>
+  addCurrentDomainTo(disabledPagesTextarea, validateDisabledPages, 'the disabled pages'));
+disabledPagesTextarea.addEventListener('input', validateDisabledPages);
+saveDisabledPagesButton.addEventListener('click', saveDisabledPages);
 exportDomainsButton.addEventListener('click', exportDomains);
 importDomainsButton.addEventListener('click', () => importFileInput.click());
 importFileInput.addEventListener('change', importDomains);
+addContainerRuleButton.addEventListener('click', addContainerRule);
+saveContainerRulesButton.addEventListener('click', saveContainerRules);
+addRewriteRuleButton.addEventListener('click', addRewriteRule);
+rewriteTestInput.addEventListener('input', updateRewriteTest);
+saveRewriteRulesButton.addEventListener('click', saveRewriteRules);
+addSmartPatternButton.addEventListener('click', addSmartPattern);
+smartPatternTestInput.addEventListener('input', updateSmartPatternTest);
+saveSmartPatternsButton.addEventListener('click', saveSmartPatterns);
+stripTrackingParamsToggle.addEventListener('change', updateSettings);
+trackingParamsTextarea.addEventListener('input', validateTrackingParams);
+saveTrackingParamsButton.addEventListener('click', saveTrackingParams);
+restoreTrackingParamsButton.addEventListener('click', restoreTrackingParams);
+unwrapRedirectsToggle.addEventListener('change', updateSettings);
+redirectPatternsTextarea.addEventListener('input', validateRedirectPatterns);
+saveRedirectPatternsButton.addEventListener('click', saveRedirectPatterns);
+changeShortcutsButton.addEventListener('click', openShortcutSettings);
+keepHistoryToggle.addEventListener('change', updateSettings);
+historyMaxEntriesInput.addEventListener('change', updateSettings);
+historyMaxDaysInput.addEventListener('change', updateSettings);
+historySearchInput.addEventListener('input', renderHistory);
+historyTriggerFilter.addEventListener('change', renderHistory);
+historyOutcomeFilter.addEventListener('change', renderHistory);
+clearHistoryButton.addEventListener('click', clearHistory);
 
 // Advanced settings event listeners
 toggleAdvancedButton.addEventListener('click', toggleAdvancedSettings);
 debounceThresholdSlider.addEventListener('input', updateDebounceValue);
 clickDistanceThresholdSlider.addEventListener('input', updateDistanceValue);
 clickTimeThresholdSlider.addEventListener('input', updateTimeValue);
+confirmThresholdSlider.addEventListener('input', updateBatchLimitValues);
+maxBatchSizeSlider.addEventListener('input', updateBatchLimitValues);
+openDelaySlider.addEventListener('input', updateBatchLimitValues);
+maxLoadingTabsSlider.addEventListener('input', updateBatchLimitValues);
+lazyAfterSlider.addEventListener('input', updateBatchLimitValues);
 saveAdvancedButton.addEventListener('click', saveAdvancedSettings);
 
 // Add tooltip behavior for excluded domains
@@ -116,21 +390,19 @@ function validateDomains(): void {
     const domainsList = domainsText ? domainsText.split('\n').map(d => d.trim()).filter(Boolean) : [];
     
     // Track validation issues
-    const invalidDomains: string[] = [];
+    const invalidRules: string[] = [];
     const duplicateDomains: string[] = [];
     const seenDomains = new Set<string>();
     
-    // Check each domain
+    // Check each rule
     domainsList.forEach(domain => {
-      // Remove leading www. for comparison
-      const normalizedDomain = domain.replace(/^www\./, '');
-      
-      // Check for invalid domains (basic validation)
-      if (!/^[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/.test(normalizedDomain)) {
-        invalidDomains.push(domain);
+      const error = validateExclusionRule(domain);
+      if (error) {
+        invalidRules.push(`${domain} (${error})`);
       }
       
-      // Check for duplicates
+      // Check for duplicates, ignoring www. and case
+      const normalizedDomain = normalizeExclusionRule(domain);
       if (seenDomains.has(normalizedDomain)) {
         duplicateDomains.push(domain);
       } else {
@@ -139,21 +411,21 @@ function validateDomains(): void {
     });
     
     // Show validation feedback
-    if (invalidDomains.length > 0 || duplicateDomains.length > 0) {
+    if (invalidRules.length > 0 || duplicateDomains.length > 0) {
       let feedbackMessage = '';
       
-      if (invalidDomains.length > 0) {
-        feedbackMessage += `Invalid domain${invalidDomains.length > 1 ? 's' : ''}: ${invalidDomains.join(', ')}. `;
+      if (invalidRules.length > 0) {
+        feedbackMessage += `Invalid rule${invalidRules.length > 1 ? 's' : ''}: ${invalidRules.join(', ')}. `;
       }
       
       if (duplicateDomains.length > 0) {
-        feedbackMessage += `Duplicate domain${duplicateDomains.length > 1 ? 's' : ''}: ${duplicateDomains.join(', ')}. `;
+        feedbackMessage += `Duplicate rule${duplicateDomains.length > 1 ? 's' : ''}: ${duplicateDomains.join(', ')}. `;
       }
       
       domainValidationFeedback.textContent = feedbackMessage;
       
       // Add visual indicator to the textarea
-      if (invalidDomains.length > 0) {
+      if (invalidRules.length > 0) {
         excludedDomainsTextarea.classList.add('invalid-domain');
       } else {
         excludedDomainsTextarea.classList.remove('invalid-domain');
@@ -170,6 +442,9 @@ function validateDomains(): void {
       excludedDomainsTextarea.classList.remove('invalid-domain', 'duplicate-domain');
     }
     
+    // Keep the test result in step with the edited rules
+    updateExclusionTest();
+    
     // Also check if exclusions have changed
     checkExclusionsChanged();
   } catch (error) {
@@ -178,9 +453,809 @@ function validateDomains(): void {
 }
 
 /**
- * Add the current tab's domain to the exclusion list
+ * Show whether the sample URL in the test box would open, and which rule decided it
+ */
+function updateExclusionTest(): void {
+  const sampleUrl = exclusionTestInput.value.trim();
+  if (!sampleUrl) {
+    exclusionTestResult.textContent = '';
+    return;
+  }
+  
+  const domainsText = excludedDomainsTextarea.value.trim();
+  const domainsList = domainsText ? domainsText.split('\n').map(d => d.trim()).filter(Boolean) : [];
+  const mode = exclusionModeSelect.value as ExclusionMode;
+  const { blocked, match } = checkExclusion(normalizeUrl(sampleUrl), domainsList, mode);
+  
+  if (match) {
+    exclusionTestResult.textContent = `${blocked ? 'Blocked' : 'Opens'}: rule ${match.index + 1} (${match.rule}) matches - ${match.reason}`;
+  } else if (blocked) {
+    exclusionTestResult.textContent = 'Blocked: no allowlist rule matches';
+  } else {
+    exclusionTestResult.textContent = 'Opens: no rule matches';
+  }
+}
+
+/**
+ * A text field in a rule editor row
+ */
+interface RuleField<T> {
+  key: keyof T & string;
+  placeholder: string;
+}
+
+/**
+ * Render editor rows for a list of toggleable rules (rewrite rules, smart patterns)
+ * Each row has an enable checkbox, one text input per field and move/delete buttons
+ *
+ * @param container The element the rows are rendered into
+ * @param rules The rules being edited, modified in place
+ * @param fields The text fields to show for each rule
+ * @param validate Returns an error message for an unusable rule, or null
+ * @param onChange Called after any edit
+ */
+function renderRuleRows<T extends { enabled: boolean }>(
+  container: HTMLElement,
+  rules: T[],
+  fields: RuleField<T>[],
+  validate: (rule: T) => string | null,
+  onChange: () => void
+): void {
+  const render = () => renderRuleRows(container, rules, fields, validate, onChange);
+  container.textContent = '';
+  
+  rules.forEach((rule, index) => {
+    const row = document.createElement('div');
+    row.className = 'rule-row';
+    row.classList.toggle('disabled-rule', !rule.enabled);
+    row.classList.toggle('invalid-rule', validate(rule) !== null);
+    
+    const enabledCheckbox = document.createElement('input');
+    enabledCheckbox.type = 'checkbox';
+    enabledCheckbox.checked = rule.enabled;
+    enabledCheckbox.title = 'Enable this rule';
+    enabledCheckbox.addEventListener('change', () => {
+      rule.enabled = enabledCheckbox.checked;
+      row.classList.toggle('disabled-rule', !rule.enabled);
+      onChange();
+    });
+    
+    const fieldsElement = document.createElement('div');
+    fieldsElement.className = 'rule-fields';
+    
+    fields.forEach(field => {
+      const input = document.createElement('input');
+      input.type = 'text';
+      input.className = 'text-input';
+      input.placeholder = field.placeholder;
+      input.value = String(rule[field.key]);
+      input.addEventListener('input', () => {
+        (rule as Record<string, unknown>)[field.key] = input.value;
+        row.classList.toggle('invalid-rule', validate(rule) !== null);
+        onChange();
+      });
+      fieldsElement.appendChild(input);
+    });
+    
+    const buttons = document.createElement('div');
+    buttons.className = 'rule-buttons';
+    buttons.append(
+      createRuleButton('↑', 'Move up', index > 0, () => moveRule(rules, index, -1, render, onChange)),
+      createRuleButton('↓', 'Move down', index < rules.length - 1, () => moveRule(rules, index, 1, render, onChange)),
+      createRuleButton('✕', 'Delete rule', true, () => {
+        rules.splice(index, 1);
+        render();
+        onChange();
+      })
+    );
+    
+    row.append(enabledCheckbox, fieldsElement, buttons);
+    container.appendChild(row);
+  });
+}
+
+/**
+ * Create a small button for a rule editor row
+ */
+function createRuleButton(label: string, title: string, enabled: boolean, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.className = 'action-button';
+  button.textContent = label;
+  button.title = title;
+  button.disabled = !enabled;
+  button.addEventListener('click', onClick);
+  return button;
+}
+
+/**
+ * Move a rule up or down in its list
+ */
+function moveRule<T>(rules: T[], index: number, offset: number, render: () => void, onChange: () => void): void {
+  const target = index + offset;
+  if (target < 0 || target >= rules.length) {
+    return;
+  }
+  
+  [rules[index], rules[target]] = [rules[target], rules[index]];
+  render();
+  onChange();
+}
+
+/**
+ * Focus the first field of the last row in a rule editor
+ */
+function focusLastRule(container: HTMLElement): void {
+  const input = container.querySelector<HTMLInputElement>('.rule-row:last-child .text-input');
+  if (input) {
+    input.focus();
+  }
+}
+
+/**
+ * Render the rewrite rule editor rows
+ */
+function renderRewriteRules(): void {
+  renderRuleRows(rewriteRulesList, rewriteRules, [
+    { key: 'match', placeholder: '^https?://(www\\.)?reddit\\.com/(.*)' },
+    { key: 'replacement', placeholder: 'https://old.reddit.com/$2' }
+  ], validateRewriteRule, onRewriteRulesChanged);
+}
+
+/**
+ * Add an empty rewrite rule at the end of the list
+ */
+function addRewriteRule(): void {
+  rewriteRules.push({ match: '', replacement: '', enabled: true });
+  renderRewriteRules();
+  onRewriteRulesChanged();
+  focusLastRule(rewriteRulesList);
+}
+
+/**
+ * Validate the rules, refresh the test result and the save button state
+ */
+function onRewriteRulesChanged(): void {
+  try {
+    const problems = rewriteRules
+      .map((rule, index) => {
+        const error = validateRewriteRule(rule);
+        return error ? `Rule ${index + 1}: ${error}` : null;
+      })
+      .filter((problem): problem is string => problem !== null);
+    
+    rewriteValidationFeedback.textContent = problems.join('. ');
+    
+    const hasChanges = JSON.stringify(rewriteRules) !== JSON.stringify(savedRewriteRules);
+    saveRewriteRulesButton.disabled = !hasChanges || problems.length > 0;
+    
+    updateRewriteTest();
+  } catch (error) {
+    console.error('Error validating rewrite rules:', error);
+  }
+}
+
+/**
+ * Show what the current rules do to the sample URL in the test box
+ */
+function updateRewriteTest(): void {
+  const sampleUrl = rewriteTestInput.value.trim();
+  if (!sampleUrl) {
+    rewriteTestResult.textContent = '';
+    return;
+  }
+  
+  const { url, applied } = applyRewriteRules(sampleUrl, rewriteRules);
+  rewriteTestResult.textContent = applied.length > 0
+    ? `→ ${url} (rule${applied.length > 1 ? 's' : ''} ${applied.map(index => index + 1).join(', ')})`
+    : 'No rule matches';
+}
+
+/**
+ * Save the rewrite rules
+ */
+function saveRewriteRules(): void {
+  try {
+    if (saveRewriteRulesButton.disabled) {
+      return;
+    }
+    
+    const rules = rewriteRules.map(rule => ({ ...rule }));
+    saveRewriteRulesButton.classList.add('saving');
+    
+    setStorage({ rewriteRules: rules }, () => {
+      savedRewriteRules = rules.map(rule => ({ ...rule }));
+      
+      // Notify background script about settings change
+      safeBrowserCall(() =>
+        browserAPI.runtime.sendMessage({
+          action: 'settingsUpdated',
+          settings: { rewriteRules: rules }
+        })
+      );
+      
+      showSaveStatus('Rewrite rules saved', rewriteSaveStatus);
+      
+      setTimeout(() => {
+        saveRewriteRulesButton.classList.remove('saving');
+        onRewriteRulesChanged();
+      }, 300);
+    }, () => {
+      showSaveStatus('Error saving rewrite rules', rewriteSaveStatus);
+      saveRewriteRulesButton.classList.remove('saving');
+    });
+  } catch (error) {
+    console.error('Error saving rewrite rules:', error);
+    showSaveStatus('Error saving rewrite rules', rewriteSaveStatus);
+  }
+}
+
+/**
+ * Show the container rules where the browser has containers (Firefox), with the names to choose from
+ */
+function showContainers(): void {
+  const available = !!getContainersAPI();
+  containerSection.classList.toggle('hidden', !available);
+  if (!available) {
+    return;
+  }
+  
+  getContainers().then(containers => {
+    containerNamesElement.textContent = containers.length > 0
+      ? `Your containers: ${containers.map(container => container.name).join(', ')}`
+      : 'No containers are set up, or containers are turned off in Firefox';
+  });
+}
+
+/**
+ * Render the container rule editor rows
+ */
+function renderContainerRules(): void {
+  renderRuleRows(containerRulesList, containerRules, [
+    { key: 'site', placeholder: 'github.com' },
+    { key: 'container', placeholder: 'Work' }
+  ], validateContainerRule, onContainerRulesChanged);
+}
+
+/**
+ * Add an empty container rule at the end of the list
+ */
+function addContainerRule(): void {
+  containerRules.push({ site: '', container: '', enabled: true });
+  renderContainerRules();
+  onContainerRulesChanged();
+  focusLastRule(containerRulesList);
+}
+
+/**
+ * Validate the container rules and refresh the save button state
+ */
+function onContainerRulesChanged(): void {
+  try {
+    const problems = containerRules
+      .map((rule, index) => {
+        const error = validateContainerRule(rule);
+        return error ? `Rule ${index + 1}: ${error}` : null;
+      })
+      .filter((problem): problem is string => problem !== null);
+    
+    containerValidationFeedback.textContent = problems.join('. ');
+    
+    const hasChanges = JSON.stringify(containerRules) !== JSON.stringify(savedContainerRules);
+    saveContainerRulesButton.disabled = !hasChanges || problems.length > 0;
+  } catch (error) {
+    console.error('Error validating container rules:', error);
+  }
+}
+
+/**
+ * Save the container rules
+ */
+function saveContainerRules(): void {
+  try {
+    if (saveContainerRulesButton.disabled) {
+      return;
+    }
+    
+    const rules = containerRules.map(rule => ({ ...rule, site: rule.site.trim(), container: rule.container.trim() }));
+    saveContainerRulesButton.classList.add('saving');
+    
+    setStorage({ containerRules: rules }, () => {
+      savedContainerRules = rules.map(rule => ({ ...rule }));
+      containerRules = rules.map(rule => ({ ...rule }));
+      renderContainerRules();
+      
+      // Notify background script about settings change
+      safeBrowserCall(() =>
+        browserAPI.runtime.sendMessage({
+          action: 'settingsUpdated',
+          settings: { containerRules: rules }
+        })
+      );
+      
+      showSaveStatus('Container rules saved', containerSaveStatus);
+      
+      setTimeout(() => {
+        saveContainerRulesButton.classList.remove('saving');
+        onContainerRulesChanged();
+      }, 300);
+    }, () => {
+      showSaveStatus('Error saving container rules', containerSaveStatus);
+      saveContainerRulesButton.classList.remove('saving');
+    });
+  } catch (error) {
+    console.error('Error saving container rules:', error);
+    showSaveStatus('Error saving container rules', containerSaveStatus);
+  }
+}
+
+/**
+ * Render the smart pattern editor rows
+ */
+function renderSmartPatterns(): void {
+  renderRuleRows(smartPatternsList, smartPatterns, [
+    { key: 'pattern', placeholder: '\\bPROJ-\\d+\\b' },
+    { key: 'template', placeholder: 'https://jira.example.com/browse/$&' }
+  ], validateSmartPattern, onSmartPatternsChanged);
+}
+
+/**
+ * Add an empty smart pattern at the end of the list
+ */
+function addSmartPattern(): void {
+  smartPatterns.push({ pattern: '', template: '', enabled: true });
+  renderSmartPatterns();
+  onSmartPatternsChanged();
+  focusLastRule(smartPatternsList);
+}
+
+/**
+ * Validate the smart patterns, refresh the test result and the save button state
+ */
+function onSmartPatternsChanged(): void {
+  try {
+    const problems = smartPatterns
+      .map((smartPattern, index) => {
+        const error = validateSmartPattern(smartPattern);
+        return error ? `Pattern ${index + 1}: ${error}` : null;
+      })
+      .filter((problem): problem is string => problem !== null);
+    
+    smartPatternValidationFeedback.textContent = problems.join('. ');
+    
+    const hasChanges = JSON.stringify(smartPatterns) !== JSON.stringify(savedSmartPatterns);
+    saveSmartPatternsButton.disabled = !hasChanges || problems.length > 0;
+    
+    updateSmartPatternTest();
+  } catch (error) {
+    console.error('Error validating smart patterns:', error);
+  }
+}
+
+/**
+ * Show the URLs the current patterns find in the sample text in the test box
+ */
+function updateSmartPatternTest(): void {
+  const sampleText = smartPatternTestInput.value.trim();
+  if (!sampleText) {
+    smartPatternTestResult.textContent = '';
+    return;
+  }
+  
+  const { urls, expansions } = extractUrlsWithFormats(sampleText, urlPatternSelect.value, { smartPatterns });
+  smartPatternTestResult.textContent = expansions > 0
+    ? `→ ${urls.join(', ')} (${expansions} expanded)`
+    : 'No pattern matches';
+}
+
+/**
+ * Save the smart patterns
+ */
+function saveSmartPatterns(): void {
+  try {
+    if (saveSmartPatternsButton.disabled) {
+      return;
+    }
+    
+    const patterns = smartPatterns.map(smartPattern => ({ ...smartPattern }));
+    saveSmartPatternsButton.classList.add('saving');
+    
+    setStorage({ smartPatterns: patterns }, () => {
+      savedSmartPatterns = patterns.map(smartPattern => ({ ...smartPattern }));
+      
+      // Notify background script about settings change
+      safeBrowserCall(() =>
+        browserAPI.runtime.sendMessage({
+          action: 'settingsUpdated',
+          settings: { smartPatterns: patterns }
+        })
+      );
+      
+      showSaveStatus('Smart patterns saved', smartPatternSaveStatus);
+      
+      setTimeout(() => {
+        saveSmartPatternsButton.classList.remove('saving');
+        onSmartPatternsChanged();
+      }, 300);
+    }, () => {
+      showSaveStatus('Error saving smart patterns', smartPatternSaveStatus);
+      saveSmartPatternsButton.classList.remove('saving');
+    });
+  } catch (error) {
+    console.error('Error saving smart patterns:', error);
+    showSaveStatus('Error saving smart patterns', smartPatternSaveStatus);
+  }
+}
+
+/**
+ * Validate the disabled page rules in the textarea
+ * They use the same syntax as exclusion rules
+ */
+function validateDisabledPages(): void {
+  try {
+    const rules = getDisabledPagesFromTextarea();
+    const invalidRules = rules.filter(rule => validateExclusionRule(rule) !== null);
+    
+    if (invalidRules.length > 0) {
+      disabledPagesValidationFeedback.textContent = `Invalid rule${invalidRules.length > 1 ? 's' : ''}: ${invalidRules.join(', ')}`;
+      disabledPagesTextarea.classList.add('invalid-domain');
+    } else {
+      disabledPagesValidationFeedback.textContent = '';
+      disabledPagesTextarea.classList.remove('invalid-domain');
+    }
+    
+    const hasChanges = JSON.stringify(rules) !== JSON.stringify(savedDisabledPages);
+    saveDisabledPagesButton.disabled = !hasChanges || invalidRules.length > 0;
+  } catch (error) {
+    console.error('Error validating disabled pages:', error);
+  }
+}
+
+/**
+ * Read the disabled page rules from the textarea
+ */
+function getDisabledPagesFromTextarea(): string[] {
+  const text = disabledPagesTextarea.value.trim();
+  return text ? text.split('\n').map(rule => rule.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Save the disabled page list
+ */
+function saveDisabledPages(): void {
+  try {
+    if (saveDisabledPagesButton.disabled) {
+      return;
+    }
+    
+    const rules = getDisabledPagesFromTextarea();
+    saveDisabledPagesButton.classList.add('saving');
+    
+    setStorage({ disabledPages: rules }, () => {
+      savedDisabledPages = [...rules];
+      
+      // Notify background script about settings change
+      safeBrowserCall(() =>
+        browserAPI.runtime.sendMessage({
+          action: 'settingsUpdated',
+          settings: { disabledPages: rules }
+        })
+      );
+      
+      showSaveStatus('Disabled pages saved', disabledPagesSaveStatus);
+      
+      setTimeout(() => {
+        saveDisabledPagesButton.classList.remove('saving');
+        validateDisabledPages();
+      }, 300);
+    }, () => {
+      showSaveStatus('Error saving disabled pages', disabledPagesSaveStatus);
+      saveDisabledPagesButton.classList.remove('saving');
+    });
+  } catch (error) {
+    console.error('Error saving disabled pages:', error);
+    showSaveStatus('Error saving disabled pages', disabledPagesSaveStatus);
+  }
+}
+
+/**
+ * Validate tracking parameter rules in the textarea
+ * Highlights malformed rules and enables the save button when the list changed
+ */
+function validateTrackingParams(): void {
+  try {
+    const rules = getTrackingParamsFromTextarea();
+    const invalidRules = rules.filter(rule => !isValidTrackingRule(rule));
+    
+    if (invalidRules.length > 0) {
+      trackingValidationFeedback.textContent = `Invalid rule${invalidRules.length > 1 ? 's' : ''}: ${invalidRules.join(', ')}`;
+      trackingParamsTextarea.classList.add('invalid-domain');
+    } else {
+      trackingValidationFeedback.textContent = '';
+      trackingParamsTextarea.classList.remove('invalid-domain');
+    }
+    
+    const hasChanges = JSON.stringify(rules) !== JSON.stringify(savedTrackingParams);
+    saveTrackingParamsButton.disabled = !hasChanges || invalidRules.length > 0;
+  } catch (error) {
+    console.error('Error validating tracking parameters:', error);
+  }
+}
+
+/**
+ * Read the tracking parameter rules from the textarea
+ */
+function getTrackingParamsFromTextarea(): string[] {
+  const text = trackingParamsTextarea.value.trim();
+  return text ? text.split('\n').map(rule => rule.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Save the tracking parameter list
+ */
+function saveTrackingParams(): void {
+  try {
+    if (saveTrackingParamsButton.disabled) {
+      return;
+    }
+    
+    const rules = getTrackingParamsFromTextarea();
+    saveTrackingParamsButton.classList.add('saving');
+    
+    setStorage({ trackingParams: rules }, () => {
+      savedTrackingParams = [...rules];
+      
+      // Notify background script about settings change
+      safeBrowserCall(() =>
+        browserAPI.runtime.sendMessage({
+          action: 'settingsUpdated',
+          settings: { trackingParams: rules }
+        })
+      );
+      
+      showSaveStatus('Tracking parameters saved', trackingSaveStatus);
+      
+      setTimeout(() => {
+        saveTrackingParamsButton.classList.remove('saving');
+        validateTrackingParams();
+      }, 300);
+    }, () => {
+      showSaveStatus('Error saving tracking parameters', trackingSaveStatus);
+      saveTrackingParamsButton.classList.remove('saving');
+    });
+  } catch (error) {
+    console.error('Error saving tracking parameters:', error);
+    showSaveStatus('Error saving tracking parameters', trackingSaveStatus);
+  }
+}
+
+/**
+ * Put the built-in tracking parameter list back into the textarea (not saved until confirmed)
+ */
+function restoreTrackingParams(): void {
+  trackingParamsTextarea.value = DEFAULT_TRACKING_PARAMS.join('\n');
+  validateTrackingParams();
+  showSaveStatus('Defaults restored - save to apply', trackingSaveStatus);
+}
+
+/**
+ * Validate custom redirect wrapper patterns in the textarea
+ * Highlights malformed patterns and enables the save button when the list changed
+ */
+function validateRedirectPatterns(): void {
+  try {
+    const patterns = getRedirectPatternsFromTextarea();
+    const invalidPatterns = patterns.filter(pattern => !isValidRedirectPattern(pattern));
+    
+    if (invalidPatterns.length > 0) {
+      redirectValidationFeedback.textContent = `Invalid pattern${invalidPatterns.length > 1 ? 's' : ''}: ${invalidPatterns.join(', ')}`;
+      redirectPatternsTextarea.classList.add('invalid-domain');
+    } else {
+      redirectValidationFeedback.textContent = '';
+      redirectPatternsTextarea.classList.remove('invalid-domain');
+    }
+    
+    const hasChanges = JSON.stringify(patterns) !== JSON.stringify(savedRedirectPatterns);
+    saveRedirectPatternsButton.disabled = !hasChanges || invalidPatterns.length > 0;
+  } catch (error) {
+    console.error('Error validating redirect patterns:', error);
+  }
+}
+
+/**
+ * Read the custom redirect wrapper patterns from the textarea
+ */
+function getRedirectPatternsFromTextarea(): string[] {
+  const text = redirectPatternsTextarea.value.trim();
+  return text ? text.split('\n').map(pattern => pattern.trim()).filter(Boolean) : [];
+}
+
+/**
+ * Save the custom redirect wrapper list
+ */
+function saveRedirectPatterns(): void {
+  try {
+    if (saveRedirectPatternsButton.disabled) {
+      return;
+    }
+    
+    const patterns = getRedirectPatternsFromTextarea();
+    saveRedirectPatternsButton.classList.add('saving');
+    
+    setStorage({ redirectPatterns: patterns }, () => {
+      savedRedirectPatterns = [...patterns];
+      
+      // Notify background script about settings change
+      safeBrowserCall(() =>
+        browserAPI.runtime.sendMessage({
+          action: 'settingsUpdated',
+          settings: { redirectPatterns: patterns }
+        })
+      );
+      
+      showSaveStatus('Redirect wrappers saved', redirectSaveStatus);
+      
+      setTimeout(() => {
+        saveRedirectPatternsButton.classList.remove('saving');
+        validateRedirectPatterns();
+      }, 300);
+    }, () => {
+      showSaveStatus('Error saving redirect wrappers', redirectSaveStatus);
+      saveRedirectPatternsButton.classList.remove('saving');
+    });
+  } catch (error) {
+    console.error('Error saving redirect patterns:', error);
+    showSaveStatus('Error saving redirect wrappers', redirectSaveStatus);
+  }
+}
+
+/**
+ * Show or hide the choice of lists (exclusions or disabled pages) to add the current tab's domain to
  */
 function addCurrentDomain(): void {
+  addDomainChoices.classList.toggle('hidden');
+}
+
+/**
+ * Fill the site override controls for the active tab
+ * Controls stay disabled on pages that aren't web sites (new tab page, extension pages)
+ */
+function showSiteOverride(): void {
+  try {
+    browserAPI.tabs.query({ active: true, currentWindow: true }, (tabs) => {
+      const tabUrl = tabs[0]?.url || '';
+      currentPageUrl = /^https?:\/\//i.test(tabUrl) ? tabUrl : null;
+      
+      const override = findSiteOverride(currentPageUrl || undefined, siteOverrides);
+      siteOverrideSiteElement.textContent = override
+        ? override.site
+        : currentPageUrl ? new URL(currentPageUrl).hostname.replace(/^www\./, '') : 'this page';
+      
+      (Object.keys(siteOverrideControls) as (keyof SiteSettings)[]).forEach(key => {
+        const value = override ? override.settings[key] : undefined;
+        siteOverrideControls[key].value = value === undefined ? '' : String(value);
+        siteOverrideControls[key].disabled = !currentPageUrl;
+      });
+      
+      checkSiteOverrideChanged();
+    });
+  } catch (error) {
+    console.error('Error loading site override:', error);
+  }
+}
+
+/**
+ * Read the site override controls; blank controls fall back to the global setting
+ * @returns The overridden settings, or null if a number is out of range
+ */
+function readSiteOverrideControls(): Partial<SiteSettings> | null {
+  const values: Record<string, boolean | string | number> = {};
+  
+  for (const key of Object.keys(siteOverrideControls) as (keyof SiteSettings)[]) {
+    const control = siteOverrideControls[key];
+    if (!control.value) {
+      continue;
+    }
+    
+    if (control instanceof HTMLInputElement) {
+      if (!control.checkValidity()) {
+        return null;
+      }
+      values[key] = parseInt(control.value, 10);
+    } else if (key === 'directLinkOpen' || key === 'activateTabs') {
+      values[key] = control.value === 'true';
+    } else {
+      values[key] = control.value;
+    }
+  }
+  
+  return values as Partial<SiteSettings>;
+}
+
+/**
+ * Enable the save button when the controls differ from the saved override
+ */
+function checkSiteOverrideChanged(): void {
+  const override = findSiteOverride(currentPageUrl || undefined, siteOverrides);
+  const values = readSiteOverrideControls();
+  
+  saveSiteOverrideButton.disabled = !currentPageUrl || values === null ||
+    sameSiteSettings(values, override ? override.settings : {});
+  clearSiteOverrideButton.disabled = !override;
+}
+
+/**
+ * Save the override for the active tab's site
+ * An override with every control blank is removed
+ */
+function saveSiteOverride(): void {
+  try {
+    const values = readSiteOverrideControls();
+    if (!currentPageUrl || values === null) {
+      return;
+    }
+    
+    const override = findSiteOverride(currentPageUrl, siteOverrides);
+    const hasValues = Object.keys(values).length > 0;
+    let overrides: SiteOverride[];
+    
+    if (override) {
+      // Edit the override that already covers this site, even if it was written for a wider pattern
+      overrides = hasValues
+        ? siteOverrides.map(existing => existing === override ? { ...existing, settings: values } : existing)
+        : siteOverrides.filter(existing => existing !== override);
+    } else {
+      const site = new URL(currentPageUrl).hostname.replace(/^www\./, '');
+      overrides = hasValues ? [...siteOverrides, { site, settings: values }] : siteOverrides;
+    }
+    
+    saveSiteOverrideButton.classList.add('saving');
+    
+    setStorage({ siteOverrides: overrides }, () => {
+      siteOverrides = overrides;
+      
+      // Notify background script about settings change
+      safeBrowserCall(() =>
+        browserAPI.runtime.sendMessage({
+          action: 'settingsUpdated',
+          settings: { siteOverrides: overrides }
+        })
+      );
+      
+      showSaveStatus(hasValues ? 'Site override saved' : 'Site override cleared', siteOverrideSaveStatus);
+      
+      setTimeout(() => {
+        saveSiteOverrideButton.classList.remove('saving');
+        showSiteOverride();
+      }, 300);
+    }, () => {
+      showSaveStatus('Error saving site override', siteOverrideSaveStatus);
+      saveSiteOverrideButton.classList.remove('saving');
+    });
+  } catch (error) {
+    console.error('Error saving site override:', error);
+    showSaveStatus('Error saving site override', siteOverrideSaveStatus);
+  }
+}
+
+/**
+ * Remove the override for the active tab's site
+ */
+function clearSiteOverride(): void {
+  Object.values(siteOverrideControls).forEach(control => {
+    control.value = '';
+  });
+  saveSiteOverride();
+}
+
+/**
+ * Add the domain of the active tab to a rule list
+ * @param textarea The list to add the domain to
+ * @param validate Revalidates the list after the change
+ * @param listName Name of the list shown in the status message
+ */
+function addCurrentDomainTo(textarea: HTMLTextAreaElement, validate: () => void, listName: string): void {
+  addDomainChoices.classList.add('hidden');
+  
   try {
     // Get current active tab
     browserAPI.tabs.query({ active: true, currentWindow: true }, (tabs) => {
@@ -191,25 +1266,25 @@ function addCurrentDomain(): void {
           const domain = url.hostname;
           
           // Get current domains
-          const currentText = excludedDomainsTextarea.value.trim();
+          const currentText = textarea.value.trim();
           const currentDomains = currentText ? currentText.split('\n').map(d => d.trim()).filter(Boolean) : [];
           
           // Check if domain already exists (ignoring www. prefix)
-          const normalizedDomain = domain.replace(/^www\./, '');
+          const normalizedDomain = normalizeExclusionRule(domain);
           const domainExists = currentDomains.some(d => 
-            d.replace(/^www\./, '') === normalizedDomain
+            normalizeExclusionRule(d) === normalizedDomain
           );
           
           if (!domainExists) {
             // Add domain to the list
             currentDomains.push(domain);
-            excludedDomainsTextarea.value = currentDomains.join('\n');
+            textarea.value = currentDomains.join('\n');
             
             // Validate and update UI
-            validateDomains();
-            showSaveStatus(`Added ${domain} to exclusion list`);
+            validate();
+            showSaveStatus(`Added ${domain} to ${listName}`);
           } else {
-            showSaveStatus(`${domain} is already in the list`);
+            showSaveStatus(`${domain} is already in ${listName}`);
           }
         } catch (error) {
           console.error('Error parsing URL:', error);
@@ -226,25 +1301,27 @@ function addCurrentDomain(): void {
 }
 
 /**
- * Export domains to a text file
+ * Export domains and rewrite rules to a JSON file
  */
 function exportDomains(): void {
   try {
     const domainsText = excludedDomainsTextarea.value.trim();
+    const domains = domainsText ? domainsText.split('\n').map(d => d.trim()).filter(Boolean) : [];
     
-    if (!domainsText) {
-      showSaveStatus('No domains to export');
+    if (domains.length === 0 && rewriteRules.length === 0) {
+      showSaveStatus('Nothing to export');
       return;
     }
     
-    // Create blob with domains
-    const blob = new Blob([domainsText], { type: 'text/plain' });
+    // Create blob with domains and rules
+    const exported = { excludedDomains: domains, rewriteRules: rewriteRules };
+    const blob = new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     
     // Create download link
     const a = document.createElement('a');
     const date = new Date().toISOString().split('T')[0]; // YYYY-MM-DD
-    a.download = `excluded-domains-${date}.txt`;
+    a.download = `open-link-in-new-tab-rules-${date}.json`;
     a.href = url;
     a.style.display = 'none';
     
@@ -258,7 +1335,7 @@ function exportDomains(): void {
       URL.revokeObjectURL(url);
     }, 100);
     
-    showSaveStatus('Domains exported');
+    showSaveStatus('Domains and rules exported');
   } catch (error) {
     console.error('Error exporting domains:', error);
     showSaveStatus('Error exporting domains');
@@ -266,7 +1343,7 @@ function exportDomains(): void {
 }
 
 /**
- * Import domains from a text file
+ * Import domains (and rewrite rules) from a JSON export or a plain text domain list
  */
 function importDomains(event: Event): void {
   try {
@@ -285,17 +1362,23 @@ function importDomains(event: Event): void {
           throw new Error('Invalid file content');
         }
         
-        const content = e.target.result;
-        const domains = content
-          .split('\n')
-          .map(line => line.trim())
-          .filter(Boolean);
+        const { domains, rules } = parseImportedContent(e.target.result);
         
-        if (domains.length === 0) {
-          showSaveStatus('No domains found in file');
+        if (domains.length === 0 && rules.length === 0) {
+          showSaveStatus('No domains or rules found in file');
           return;
         }
         
+        // Append imported rules that aren't already in the list
+        const newRules = rules.filter(rule =>
+          !rewriteRules.some(existing => existing.match === rule.match && existing.replacement === rule.replacement)
+        );
+        if (newRules.length > 0) {
+          rewriteRules.push(...newRules);
+          renderRewriteRules();
+          onRewriteRulesChanged();
+        }
+        
         // Get current domains
         const currentText = excludedDomainsTextarea.value.trim();
         const currentDomains = currentText ? currentText.split('\n').map(d => d.trim()).filter(Boolean) : [];
@@ -308,7 +1391,7 @@ function importDomains(event: Event): void {
         
         // Validate and update UI
         validateDomains();
-        showSaveStatus(`Imported ${domains.length} domains`);
+        showSaveStatus(`Imported ${domains.length} domains and ${newRules.length} rules`);
       } catch (error) {
         console.error('Error processing imported file:', error);
         showSaveStatus('Error importing domains');
@@ -329,6 +1412,31 @@ function importDomains(event: Event): void {
   }
 }
 
+/**
+ * Read domains and rewrite rules from imported file content
+ * JSON exports carry both; anything else is treated as a domain per line
+ */
+function parseImportedContent(content: string): { domains: string[]; rules: RewriteRule[] } {
+  try {
+    const parsed = JSON.parse(content);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return {
+        domains: Array.isArray(parsed.excludedDomains)
+          ? parsed.excludedDomains.filter((d: unknown): d is string => typeof d === 'string').map((d: string) => d.trim()).filter(Boolean)
+          : [],
+        rules: Array.isArray(parsed.rewriteRules) ? parsed.rewriteRules.filter(isRewriteRule) : []
+      };
+    }
+  } catch (e) {
+    // Not JSON - fall back to the plain text format
+  }
+  
+  return {
+    domains: content.split('\n').map(line => line.trim()).filter(Boolean),
+    rules: []
+  };
+}
+
 /**
  * Check if exclusions have changed and enable/disable save button accordingly
  */
@@ -337,8 +1445,9 @@ function checkExclusionsChanged(): void {
     const currentText = excludedDomainsTextarea.value.trim();
     const currentDomains = currentText ? currentText.split('\n').map(d => d.trim()).filter(d => d) : [];
     
-    // Compare current domains with saved ones
-    const hasChanges = JSON.stringify(currentDomains) !== JSON.stringify(savedExclusionList);
+    // Compare current domains and mode with saved ones
+    const hasChanges = JSON.stringify(currentDomains) !== JSON.stringify(savedExclusionList) ||
+      exclusionModeSelect.value !== savedExclusionMode;
     
     saveExclusionsButton.disabled = !hasChanges;
     
@@ -360,26 +1469,100 @@ function loadSettings(): void {
   getStorage<ExtensionSettings>({
     enableExtension: DEFAULT_SETTINGS.enableExtension,
     activateTabs: DEFAULT_SETTINGS.activateTabs,
+    tabPlacement: DEFAULT_SETTINGS.tabPlacement,
+    duplicateTabs: DEFAULT_SETTINGS.duplicateTabs,
+    groupBatches: DEFAULT_SETTINGS.groupBatches,
+    groupTitleTemplate: DEFAULT_SETTINGS.groupTitleTemplate,
+    groupColor: DEFAULT_SETTINGS.groupColor,
+    groupCollapsed: DEFAULT_SETTINGS.groupCollapsed,
+    joinSourceGroup: DEFAULT_SETTINGS.joinSourceGroup,
     supportMultipleUrls: DEFAULT_SETTINGS.supportMultipleUrls,
     excludedDomains: DEFAULT_SETTINGS.excludedDomains,
+    exclusionMode: DEFAULT_SETTINGS.exclusionMode,
+    disabledPages: DEFAULT_SETTINGS.disabledPages,
+    siteOverrides: DEFAULT_SETTINGS.siteOverrides,
+    containerRules: DEFAULT_SETTINGS.containerRules,
+    rewriteRules: DEFAULT_SETTINGS.rewriteRules,
+    smartPatterns: DEFAULT_SETTINGS.smartPatterns,
     directLinkOpen: DEFAULT_SETTINGS.directLinkOpen,
+    stripTrackingParams: DEFAULT_SETTINGS.stripTrackingParams,
+    trackingParams: DEFAULT_SETTINGS.trackingParams,
+    unwrapRedirects: DEFAULT_SETTINGS.unwrapRedirects,
+    redirectPatterns: DEFAULT_SETTINGS.redirectPatterns,
     // Advanced settings
     debounceThreshold: DEFAULT_SETTINGS.debounceThreshold,
     clickDistanceThreshold: DEFAULT_SETTINGS.clickDistanceThreshold,
     clickTimeThreshold: DEFAULT_SETTINGS.clickTimeThreshold,
     debugMode: DEFAULT_SETTINGS.debugMode,
-    urlPatternType: DEFAULT_SETTINGS.urlPatternType
+    urlPatternType: DEFAULT_SETTINGS.urlPatternType,
+    resolveRelativeUrls: DEFAULT_SETTINGS.resolveRelativeUrls,
+    confirmThreshold: DEFAULT_SETTINGS.confirmThreshold,
+    maxBatchSize: DEFAULT_SETTINGS.maxBatchSize,
+    openDelay: DEFAULT_SETTINGS.openDelay,
+    maxLoadingTabs: DEFAULT_SETTINGS.maxLoadingTabs,
+    lazyBatches: DEFAULT_SETTINGS.lazyBatches,
+    lazyAfter: DEFAULT_SETTINGS.lazyAfter,
+    keepHistory: DEFAULT_SETTINGS.keepHistory,
+    historyMaxEntries: DEFAULT_SETTINGS.historyMaxEntries,
+    historyMaxDays: DEFAULT_SETTINGS.historyMaxDays
   }, (settings: ExtensionSettings) => {
     // Update checkbox states
     enableExtensionToggle.checked = settings.enableExtension;
     directLinkOpenToggle.checked = settings.directLinkOpen;
     activateTabsToggle.checked = settings.activateTabs;
+    tabPlacementSelect.value = settings.tabPlacement;
+    duplicateTabsSelect.value = settings.duplicateTabs;
+    groupBatchesToggle.checked = settings.groupBatches;
+    groupTitleTemplateInput.value = settings.groupTitleTemplate;
+    groupColorSelect.value = settings.groupColor;
+    groupCollapsedToggle.checked = settings.groupCollapsed;
+    joinSourceGroupToggle.checked = settings.joinSourceGroup;
+    showTabGroupAvailability();
     supportMultipleUrlsToggle.checked = settings.supportMultipleUrls;
+    stripTrackingParamsToggle.checked = settings.stripTrackingParams;
+    unwrapRedirectsToggle.checked = settings.unwrapRedirects;
+    keepHistoryToggle.checked = settings.keepHistory;
+    historyMaxEntriesInput.value = String(settings.historyMaxEntries);
+    historyMaxDaysInput.value = String(settings.historyMaxDays);
+    
+    // Update custom redirect wrapper list
+    savedRedirectPatterns = [...(settings.redirectPatterns || [])];
+    redirectPatternsTextarea.value = savedRedirectPatterns.join('\n');
+    
+    // Update rewrite rules
+    savedRewriteRules = (settings.rewriteRules || []).map(rule => ({ ...rule }));
+    rewriteRules = savedRewriteRules.map(rule => ({ ...rule }));
+    renderRewriteRules();
+    
+    // Update container rules
+    savedContainerRules = (settings.containerRules || []).filter(isContainerRule).map(rule => ({ ...rule }));
+    containerRules = savedContainerRules.map(rule => ({ ...rule }));
+    renderContainerRules();
+    showContainers();
+    
+    // Update smart patterns
+    savedSmartPatterns = (settings.smartPatterns || []).map(smartPattern => ({ ...smartPattern }));
+    smartPatterns = savedSmartPatterns.map(smartPattern => ({ ...smartPattern }));
+    renderSmartPatterns();
+    
+    // Update tracking parameter list
+    savedTrackingParams = [...(settings.trackingParams || [])];
+    trackingParamsTextarea.value = savedTrackingParams.join('\n');
     
     // Update domain exclusion list
     const domainsList = settings.excludedDomains || [];
     savedExclusionList = [...domainsList];
     excludedDomainsTextarea.value = domainsList.join('\n');
+    savedExclusionMode = settings.exclusionMode || DEFAULT_SETTINGS.exclusionMode;
+    exclusionModeSelect.value = savedExclusionMode;
+    
+    // Update site overrides for the active tab
+    siteOverrides = (settings.siteOverrides || []).filter(isSiteOverride);
+    showSiteOverride();
+    
+    // Update disabled pages
+    savedDisabledPages = [...(settings.disabledPages || [])];
+    disabledPagesTextarea.value = savedDisabledPages.join('\n');
     
     // Update advanced settings
     debounceThresholdSlider.value = String(settings.debounceThreshold);
@@ -393,13 +1576,277 @@ function loadSettings(): void {
     
     debugModeToggle.checked = settings.debugMode;
     urlPatternSelect.value = settings.urlPatternType;
+    resolveRelativeUrlsToggle.checked = settings.resolveRelativeUrls;
+    
+    confirmThresholdSlider.value = String(settings.confirmThreshold);
+    maxBatchSizeSlider.value = String(settings.maxBatchSize);
+    openDelaySlider.value = String(settings.openDelay);
+    maxLoadingTabsSlider.value = String(settings.maxLoadingTabs);
+    lazyBatchesToggle.checked = settings.lazyBatches;
+    lazyAfterSlider.value = String(settings.lazyAfter);
+    updateBatchLimitValues();
     
     // Run validation
     validateDomains();
     checkExclusionsChanged();
+    validateDisabledPages();
+    validateTrackingParams();
+    validateRedirectPatterns();
+    onRewriteRulesChanged();
+    onSmartPatternsChanged();
+    onContainerRulesChanged();
   });
 }
 
+/**
+ * Disable the tab group settings where the browser can't group tabs (Firefox)
+ */
+function showTabGroupAvailability(): void {
+  const available = supportsTabGroups();
+  tabGroupsUnavailableNote.classList.toggle('hidden', available);
+  [groupBatchesToggle, groupTitleTemplateInput, groupColorSelect, groupCollapsedToggle, joinSourceGroupToggle]
+    .forEach(control => control.disabled = !available);
+}
+
+/**
+ * Show how many links are still waiting to open, so a large batch can be followed, stopped or undone
+ */
+function updateQueueStatus(): void {
+  safeBrowserCall(() => browserAPI.runtime.sendMessage({ action: 'getQueueState' }, (state) => {
+    if (browserAPI.runtime.lastError || !state) {
+      return;
+    }
+    
+    const remaining = state.waiting + (state.opening ? 1 : 0);
+    const parts: string[] = [];
+    if (remaining > 0) {
+      parts.push(`Opening ${remaining} link${remaining === 1 ? '' : 's'}…`);
+    }
+    if (state.awaitingConfirmation > 0) {
+      parts.push(`${state.awaitingConfirmation} batch${state.awaitingConfirmation === 1 ? '' : 'es'} awaiting confirmation`);
+    }
+    if (remaining === 0 && state.undoableTabs > 0) {
+      parts.push(`Last open: ${state.undoableTabs} tab${state.undoableTabs === 1 ? '' : 's'}`);
+    }
+    
+    queueStatusText.textContent = parts.join(' · ');
+    clearQueueButton.classList.toggle('hidden', remaining === 0);
+    undoLastOpenButton.classList.toggle('hidden', !state.undoable);
+    queueStatusElement.classList.toggle('hidden', parts.length === 0 && !state.undoable);
+  }));
+}
+
+/**
+ * Stop opening the links still waiting in the queue
+ */
+function clearQueue(): void {
+  safeBrowserCall(() => browserAPI.runtime.sendMessage({ action: 'clearQueue' }, () => {
+    if (browserAPI.runtime.lastError) {
+      console.error('Error clearing the queue:', browserAPI.runtime.lastError);
+    }
+    updateQueueStatus();
+  }));
+}
+
+/**
+ * Close the tabs of the last open and cancel what is left of it in the queue
+ */
+function undoLastOpen(): void {
+  undoLastOpenButton.disabled = true;
+  safeBrowserCall(() => browserAPI.runtime.sendMessage({ action: 'undoLastOpen' }, () => {
+    if (browserAPI.runtime.lastError) {
+      console.error('Error undoing the last open:', browserAPI.runtime.lastError);
+    }
+    undoLastOpenButton.disabled = false;
+    updateQueueStatus();
+  }));
+}
+
+/**
+ * List the extension's keyboard shortcuts and the keys bound to them
+ */
+function showShortcuts(): void {
+  browserAPI.commands.getAll()
+    .then(commands => {
+      shortcutList.replaceChildren(...commands
+        .filter(command => command.description)
+        .flatMap(command => {
+          const name = document.createElement('span');
+          name.textContent = command.description as string;
+          
+          const keys = document.createElement('kbd');
+          keys.textContent = command.shortcut || 'Not set';
+          keys.classList.toggle('unset', !command.shortcut);
+          
+          return [name, keys];
+        }));
+    })
+    .catch(error => console.error('Error listing keyboard shortcuts:', error));
+}
+
+/**
+ * Open the browser's page for changing extension shortcuts
+ * Firefox only opens it itself from version 137; before that the popup explains where to find it
+ */
+function openShortcutSettings(): void {
+  if (!isFirefox) {
+    browserAPI.tabs.create({ url: 'chrome://extensions/shortcuts' });
+    return;
+  }
+  
+  const commands = browserAPI.commands as unknown as { openShortcutSettings?: () => Promise<void> };
+  if (typeof commands.openShortcutSettings === 'function') {
+    commands.openShortcutSettings();
+  } else {
+    shortcutStatus.classList.remove('hidden');
+  }
+}
+
+/**
+ * Read the stored history and list it
+ */
+function loadHistory(): void {
+  browserAPI.storage.local.get(HISTORY_STORAGE_KEY, (items) => {
+    if (browserAPI.runtime.lastError) {
+      console.error('Error loading the history:', browserAPI.runtime.lastError);
+      return;
+    }
+    
+    const stored = items[HISTORY_STORAGE_KEY];
+    historyEntries = Array.isArray(stored) ? stored.filter(isHistoryEntry) : [];
+    renderHistory();
+  });
+}
+
+/**
+ * List the history entries matching the search and filters, newest first
+ */
+function renderHistory(): void {
+  const matches = filterHistory(historyEntries, {
+    query: historySearchInput.value,
+    trigger: (historyTriggerFilter.value || undefined) as OpenTrigger | undefined,
+    outcome: (historyOutcomeFilter.value || undefined) as OpenOutcome | undefined
+  });
+  
+  historyList.replaceChildren(...matches.slice(0, HISTORY_DISPLAY_LIMIT).map(createHistoryRow));
+  
+  if (historyEntries.length === 0) {
+    historySummary.textContent = 'No links opened yet';
+  } else if (matches.length === 0) {
+    historySummary.textContent = 'No links match';
+  } else if (matches.length > HISTORY_DISPLAY_LIMIT) {
+    historySummary.textContent = `Showing the latest ${HISTORY_DISPLAY_LIMIT} of ${matches.length} links; search to find older ones`;
+  } else {
+    historySummary.textContent = `${matches.length} link${matches.length === 1 ? '' : 's'}`;
+  }
+  clearHistoryButton.disabled = historyEntries.length === 0;
+}
+
+/**
+ * Build the row for a history entry, with its details and Open and Copy buttons
+ */
+function createHistoryRow(entry: HistoryEntry): HTMLDivElement {
+  const row = document.createElement('div');
+  row.className = 'rule-row history-entry';
+  
+  const fields = document.createElement('div');
+  fields.className = 'rule-fields';
+  
+  const url = document.createElement('span');
+  url.className = 'history-url';
+  url.textContent = entry.url;
+  url.title = entry.url;
+  
+  const details = [
+    new Date(entry.openedAt).toLocaleString(),
+    TRIGGER_LABELS[entry.trigger],
+    OUTCOME_LABELS[entry.outcome]
+  ];
+  const source = entry.sourceTitle || getHostname(entry.sourceUrl);
+  if (source) {
+    details.push(`from ${source}`);
+  }
+  
+  const meta = document.createElement('span');
+  meta.className = 'history-meta';
+  meta.textContent = details.join(' · ');
+  meta.title = entry.sourceUrl || '';
+  
+  fields.append(url, meta);
+  
+  const buttons = document.createElement('div');
+  buttons.className = 'rule-buttons';
+  buttons.append(
+    createRuleButton('Open', 'Open this link again', true, () => reopenHistoryEntry(entry)),
+    createRuleButton('Copy', 'Copy this link', true, () => copyHistoryEntry(entry))
+  );
+  
+  row.append(fields, buttons);
+  return row;
+}
+
+/**
+ * Get the hostname of an address, or an empty string if it has none
+ */
+function getHostname(url: string | undefined): string {
+  try {
+    return url ? new URL(url).hostname : '';
+  } catch (e) {
+    return '';
+  }
+}
+
+/**
+ * Open a history entry again, through the same exclusions and cleaning as any other link
+ */
+function reopenHistoryEntry(entry: HistoryEntry): void {
+  safeBrowserCall(() => browserAPI.runtime.sendMessage({ action: 'reopenFromHistory', url: entry.url }, (response) => {
+    if (browserAPI.runtime.lastError || !response?.success) {
+      showSaveStatus('Link not opened: the extension is off or the link is excluded', historyStatus);
+    }
+  }));
+}
+
+/**
+ * Copy a history entry's link to the clipboard
+ */
+function copyHistoryEntry(entry: HistoryEntry): void {
+  navigator.clipboard.writeText(entry.url)
+    .then(() => showSaveStatus('Link copied', historyStatus))
+    .catch(error => {
+      console.error('Error copying the link:', error);
+      showSaveStatus('Error copying the link', historyStatus);
+    });
+}
+
+/**
+ * Forget every link in the history
+ */
+function clearHistory(): void {
+  if (!confirm('Clear the history of opened links?')) {
+    return;
+  }
+  
+  browserAPI.storage.local.remove(HISTORY_STORAGE_KEY, () => {
+    if (browserAPI.runtime.lastError) {
+      console.error('Error clearing the history:', browserAPI.runtime.lastError);
+      showSaveStatus('Error clearing the history', historyStatus);
+      return;
+    }
+    historyEntries = [];
+    renderHistory();
+    showSaveStatus('History cleared', historyStatus);
+  });
+}
+
+/**
+ * Read a history retention limit, where 0 turns the limit off
+ */
+function readHistoryLimit(input: HTMLInputElement, fallback: number): number {
+  const value = parseInt(input.value, 10);
+  return Number.isNaN(value) ? fallback : Math.min(Math.max(value, 0), Number(input.max));
+}
+
 /**
  * Update settings based on toggle changes
  */
@@ -419,8 +1866,22 @@ function updateSettings(): void {
       enableExtension: enableExtensionToggle.checked,
       directLinkOpen: directLinkOpenToggle.checked,
       activateTabs: activateTabsToggle.checked,
-      supportMultipleUrls: supportMultipleUrlsToggle.checked
+      tabPlacement: tabPlacementSelect.value,
+      duplicateTabs: duplicateTabsSelect.value,
+      groupBatches: groupBatchesToggle.checked,
+      groupTitleTemplate: groupTitleTemplateInput.value.trim(),
+      groupColor: groupColorSelect.value,
+      groupCollapsed: groupCollapsedToggle.checked,
+      joinSourceGroup: joinSourceGroupToggle.checked,
+      supportMultipleUrls: supportMultipleUrlsToggle.checked,
+      stripTrackingParams: stripTrackingParamsToggle.checked,
+      unwrapRedirects: unwrapRedirectsToggle.checked,
+      keepHistory: keepHistoryToggle.checked,
+      historyMaxEntries: readHistoryLimit(historyMaxEntriesInput, DEFAULT_SETTINGS.historyMaxEntries),
+      historyMaxDays: readHistoryLimit(historyMaxDaysInput, DEFAULT_SETTINGS.historyMaxDays)
     };
+    historyMaxEntriesInput.value = String(settings.historyMaxEntries);
+    historyMaxDaysInput.value = String(settings.historyMaxDays);
 
     browserAPI.storage.sync.set(settings, () => {
       // Check for browser errors
@@ -455,14 +1916,16 @@ function saveExclusions(): void {
     
     const domainsText = excludedDomainsTextarea.value.trim();
     const domainsList = domainsText ? domainsText.split('\n').map(d => d.trim()).filter(d => d) : [];
+    const mode = exclusionModeSelect.value as ExclusionMode;
     
-    // Update saved list for comparison
+    // Update saved list and mode for comparison
     savedExclusionList = [...domainsList];
+    savedExclusionMode = mode;
     
     // Add button animation
     saveExclusionsButton.classList.add('saving');
     
-    browserAPI.storage.sync.set({ excludedDomains: domainsList }, () => {
+    browserAPI.storage.sync.set({ excludedDomains: domainsList, exclusionMode: mode }, () => {
       // Check for browser errors
       const err = browserAPI.runtime.lastError;
       if (err) {
@@ -474,7 +1937,7 @@ function saveExclusions(): void {
       // Notify background script about settings change
       browserAPI.runtime.sendMessage({ 
         action: 'settingsUpdated', 
-        settings: { excludedDomains: domainsList } 
+        settings: { excludedDomains: domainsList, exclusionMode: mode } 
       });
       
       // Show temporary save status
@@ -539,19 +2002,20 @@ function resetSettings(): void {
 
 /**
  * Show temporary save status message
+ * @param element The status element to use (defaults to the exclusion section's)
  */
-function showSaveStatus(message: string): void {
+function showSaveStatus(message: string, element: HTMLElement = saveStatusElement): void {
   try {
-    saveStatusElement.textContent = message;
-    saveStatusElement.classList.add('visible');
-    saveStatusElement.classList.add('animation-fade');
+    element.textContent = message;
+    element.classList.add('visible');
+    element.classList.add('animation-fade');
     
     // Clear the message after animation completes
     setTimeout(() => {
-      saveStatusElement.classList.remove('visible');
-      saveStatusElement.classList.remove('animation-fade');
+      element.classList.remove('visible');
+      element.classList.remove('animation-fade');
       setTimeout(() => {
-        saveStatusElement.textContent = '';
+        element.textContent = '';
       }, 300);
     }, 2000);
   } catch (error) {
@@ -599,6 +2063,17 @@ function updateTimeValue(): void {
   timeValueSpan.textContent = clickTimeThresholdSlider.value;
 }
 
+/**
+ * Update the large batch safeguard value displays, where 0 turns a safeguard off
+ */
+function updateBatchLimitValues(): void {
+  confirmThresholdValueSpan.textContent = confirmThresholdSlider.value === '0' ? 'Never' : confirmThresholdSlider.value;
+  maxBatchSizeValueSpan.textContent = maxBatchSizeSlider.value === '0' ? 'None' : maxBatchSizeSlider.value;
+  openDelayValueSpan.textContent = openDelaySlider.value;
+  maxLoadingTabsValueSpan.textContent = maxLoadingTabsSlider.value === '0' ? 'Any' : maxLoadingTabsSlider.value;
+  lazyAfterValueSpan.textContent = lazyAfterSlider.value;
+}
+
 /**
  * Save advanced settings
  */
@@ -614,7 +2089,14 @@ function saveAdvancedSettings(): void {
       clickDistanceThreshold: parseInt(clickDistanceThresholdSlider.value, 10),
       clickTimeThreshold: parseInt(clickTimeThresholdSlider.value, 10),
       debugMode: debugModeToggle.checked,
-      urlPatternType: urlPatternSelect.value
+      urlPatternType: urlPatternSelect.value,
+      resolveRelativeUrls: resolveRelativeUrlsToggle.checked,
+      confirmThreshold: parseInt(confirmThresholdSlider.value, 10),
+      maxBatchSize: parseInt(maxBatchSizeSlider.value, 10),
+      openDelay: parseInt(openDelaySlider.value, 10),
+      maxLoadingTabs: parseInt(maxLoadingTabsSlider.value, 10),
+      lazyBatches: lazyBatchesToggle.checked,
+      lazyAfter: parseInt(lazyAfterSlider.value, 10)
     };
     
     // Save to storage
@@ -0,0 +1,64 @@
+/**
+ * Generates utils/tldList.ts from a local TLD snapshot
+ *
+ * Accepts either the IANA list (tlds-alpha-by-domain.txt) or the
+ * Public Suffix List (public_suffix_list.dat). For the latter only the
+ * last label of each rule is kept, since urlChecker validates TLDs.
+ *
+ * Usage: node scripts/generate-tlds.js [path/to/list]
+ */
+const fs = require('fs');
+const path = require('path');
+const { domainToASCII } = require('url');
+
+const DEFAULT_SOURCE = path.resolve(__dirname, '..', 'data', 'tlds-alpha-by-domain.txt');
+const OUTPUT = path.resolve(__dirname, '..', 'utils', 'tldList.ts');
+const LINE_WIDTH = 96;
+
+const source = process.argv[2] ? path.resolve(process.argv[2]) : DEFAULT_SOURCE;
+const lines = fs.readFileSync(source, 'utf8').split(/\r?\n/);
+
+const tlds = new Set();
+for (const line of lines) {
+  const entry = line.trim();
+
+  // Skip blanks and comments in both IANA (#) and PSL (//) formats
+  if (!entry || entry.startsWith('#') || entry.startsWith('//')) {
+    continue;
+  }
+
+  // PSL rules may carry wildcard or exception markers and several labels
+  const label = entry.replace(/^[!*.]+/, '').split('.').pop();
+  const asciiLabel = domainToASCII(label).toLowerCase();
+  if (asciiLabel) {
+    tlds.add(asciiLabel);
+  }
+}
+
+if (tlds.size === 0) {
+  console.error(`No TLDs found in ${source}`);
+  process.exit(1);
+}
+
+// Pack the labels into wrapped string literals to keep the module compact
+const chunks = [];
+let current = '';
+for (const tld of [...tlds].sort()) {
+  if (current && current.length + tld.length + 1 > LINE_WIDTH) {
+    chunks.push(current);
+    current = '';
+  }
+  current += (current ? ' ' : '') + tld;
+}
+chunks.push(current);
+
+const output = `// Generated by scripts/generate-tlds.js from ${path.basename(source)} - do not edit by hand
+// ${tlds.size} top-level domains, stored in lowercase ASCII (punycode) form
+
+export const KNOWN_TLDS: ReadonlySet<string> = new Set((
+${chunks.map((chunk, i) => `  '${chunk}${i < chunks.length - 1 ? ' ' : ''}'`).join(' +\n')}
+).split(' '));
+`;
+
+fs.writeFileSync(OUTPUT, output);
+console.log(`Wrote ${tlds.size} TLDs to ${path.relative(process.cwd(), OUTPUT)}`);
@@ -0,0 +1,112 @@
+/**
+ * Firefox container (contextual identity) support
+ *
+ * New tabs open in the container of the tab they came from, so links from a "Work" container
+ * stay logged in. Container rules can send matching URLs to a named container instead:
+ * the rule's site uses the exclusion rule syntax and is matched against the URL being opened.
+ *
+ * Other browsers have no containers; there everything here reports nothing available.
+ */
+
+import { browserAPI, isFirefox } from './browserAPI';
+import { findMatchingRule, validateExclusionRule } from './exclusionRules';
+
+/**
+ * A container assignment rule as stored in settings
+ */
+export interface ContainerRule {
+  site: string;
+  // Name of the container, since cookie store IDs differ between profiles
+  container: string;
+  enabled: boolean;
+}
+
+/**
+ * The parts of a Firefox contextual identity the extension uses
+ */
+export interface ContextualIdentity {
+  cookieStoreId: string;
+  name: string;
+  color: string;
+}
+
+// Firefox-only APIs, missing from the chrome typings
+interface ContextualIdentitiesAPI {
+  query(details: { name?: string }): Promise<ContextualIdentity[]>;
+  onCreated?: chrome.events.Event<() => void>;
+  onRemoved?: chrome.events.Event<() => void>;
+  onUpdated?: chrome.events.Event<() => void>;
+}
+
+// Cookie store of private windows, which can't hold container tabs
+export const PRIVATE_COOKIE_STORE_ID = 'firefox-private';
+
+/**
+ * Gets the contextual identities API, or undefined outside Firefox or with containers turned off
+ */
+export function getContainersAPI(): ContextualIdentitiesAPI | undefined {
+  if (!isFirefox) {
+    return undefined;
+  }
+  return (browserAPI as unknown as { contextualIdentities?: ContextualIdentitiesAPI }).contextualIdentities;
+}
+
+/**
+ * Lists the containers the user has set up
+ * @returns An empty list where containers are unavailable
+ */
+export async function getContainers(): Promise<ContextualIdentity[]> {
+  const api = getContainersAPI();
+  if (!api) {
+    return [];
+  }
+
+  try {
+    return await api.query({});
+  } catch (e) {
+    // Containers are turned off in Firefox's settings
+    return [];
+  }
+}
+
+/**
+ * Gets the container a tab is in (Firefox sets cookieStoreId on every tab)
+ */
+export function getTabContainer(tab: chrome.tabs.Tab | undefined): string | undefined {
+  const cookieStoreId = (tab as { cookieStoreId?: unknown } | undefined)?.cookieStoreId;
+  return typeof cookieStoreId === 'string' ? cookieStoreId : undefined;
+}
+
+/**
+ * Finds the first enabled rule matching a URL
+ *
+ * @param url The URL being opened
+ * @param rules Rules in the order they were added
+ */
+export function findContainerRule(url: string, rules: ContainerRule[]): ContainerRule | null {
+  const enabledRules = rules.filter(rule => rule.enabled && validateContainerRule(rule) === null);
+  const match = findMatchingRule(url, enabledRules.map(rule => rule.site));
+  return match ? enabledRules[match.index] : null;
+}
+
+/**
+ * Checks a rule for problems
+ * @returns An error message, or null if the rule is usable
+ */
+export function validateContainerRule(rule: ContainerRule): string | null {
+  if (!rule.container.trim()) {
+    return 'Container name is empty';
+  }
+  return validateExclusionRule(rule.site);
+}
+
+/**
+ * Checks if a value is a well-formed container rule (used when loading or importing settings)
+ */
+export function isContainerRule(value: unknown): value is ContainerRule {
+  const rule = value as ContainerRule;
+  return !!rule &&
+    typeof rule.site === 'string' &&
+    typeof rule.container === 'string' &&
+    typeof rule.enabled === 'boolean';
+}
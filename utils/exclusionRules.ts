@@ -0,0 +1,257 @@
+/**
+ * Exclusion rules that decide which URLs the extension may open
+ *
+ * Rules are plain strings, one per line in the popup:
+ *   example.com                    - the domain and all of its subdomains
+ *   *.corp.example.com             - subdomains only (* matches any run of hostname characters)
+ *   example.com/admin/*            - a path on a domain (* in a path matches anything)
+ *   example.com/admin              - the path and everything below it
+ *   http://example.com             - only when opened over http
+ *   example.com:8080               - only on that port
+ *   /^https?:\/\/[^/]+\/wp-admin/  - a regular expression tested against the full URL (case-insensitive)
+ *
+ * In exclude mode a matching URL is blocked; in allow mode only matching URLs are opened.
+ * A leading www. is ignored on both sides, as it always has been.
+ */
+
+/**
+ * Whether the rules list the URLs to block or the only URLs to open
+ */
+export type ExclusionMode = 'exclude' | 'allow';
+
+/**
+ * The rule that matched a URL and a human-readable explanation
+ */
+export interface ExclusionMatch {
+  rule: string;
+  // Position of the rule in the list
+  index: number;
+  reason: string;
+}
+
+/**
+ * Outcome of checking a URL against the rules
+ */
+export interface ExclusionResult {
+  blocked: boolean;
+  match: ExclusionMatch | null;
+}
+
+interface ParsedRule {
+  regex: RegExp | null;
+  scheme: string | null;
+  host: string | null;
+  hostPattern: RegExp | null;
+  port: string | null;
+  path: string | null;
+  pathPattern: RegExp | null;
+}
+
+// Splits a rule into scheme, host, port and path
+const RULE_PARTS_PATTERN = /^(?:([a-z][a-z0-9+.-]*):\/\/)?([a-z0-9*.-]+|\[[0-9a-f:.]+\])(?::(\d{1,5}))?(\/\S*)?$/i;
+
+// A rule written as /pattern/
+const REGEX_RULE_PATTERN = /^\/(.+)\/$/;
+
+const DEFAULT_PORTS: Record<string, string> = { 'http:': '80', 'https:': '443' };
+
+/**
+ * Checks a rule for problems
+ * @returns An error message, or null if the rule is usable
+ */
+export function validateExclusionRule(rule: string): string | null {
+  const trimmed = rule.trim();
+  if (!trimmed) {
+    return 'Rule is empty';
+  }
+
+  const regexMatch = REGEX_RULE_PATTERN.exec(trimmed);
+  if (regexMatch) {
+    try {
+      new RegExp(regexMatch[1], 'i');
+      return null;
+    } catch (e) {
+      return `Invalid pattern: ${(e as Error).message}`;
+    }
+  }
+
+  const match = RULE_PARTS_PATTERN.exec(trimmed);
+  if (!match) {
+    return 'Not a domain, URL pattern or /regular expression/';
+  }
+
+  if (match[1] && !['http', 'https', 'file'].includes(match[1].toLowerCase())) {
+    return `Unsupported scheme ${match[1]}`;
+  }
+
+  if (!match[2].startsWith('[') && !/^[a-z0-9*-]+(\.[a-z0-9*-]+)*$/i.test(match[2])) {
+    return `Invalid host ${match[2]}`;
+  }
+
+  if (match[3] && (Number(match[3]) < 1 || Number(match[3]) > 65535)) {
+    return `Invalid port ${match[3]}`;
+  }
+
+  return null;
+}
+
+/**
+ * Reduces a rule to a canonical form, so duplicates can be spotted
+ * (www. and case are ignored outside regular expressions)
+ */
+export function normalizeExclusionRule(rule: string): string {
+  const trimmed = rule.trim();
+  return REGEX_RULE_PATTERN.test(trimmed) ? trimmed : trimmed.toLowerCase().replace(/^((?:[a-z]+:\/\/)?)www\./, '$1');
+}
+
+/**
+ * Finds the first rule matching a URL
+ *
+ * @param url The URL to check
+ * @param rules Rules in the order they were written (see module documentation)
+ */
+export function findMatchingRule(url: string, rules: string[]): ExclusionMatch | null {
+  let parsedUrl: URL;
+  try {
+    parsedUrl = new URL(url);
+  } catch (e) {
+    return null;
+  }
+
+  for (let index = 0; index < rules.length; index++) {
+    const rule = parseRule(rules[index]);
+    const reason = rule ? explainMatch(rule, parsedUrl) : null;
+    if (reason) {
+      return { rule: rules[index].trim(), index, reason };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Decides whether a URL is blocked by the rules
+ * An empty allowlist restricts nothing, so switching modes never silently blocks every link
+ *
+ * @param url The URL to check
+ * @param rules Rules in the order they were written
+ * @param mode Whether the rules list blocked URLs or the only allowed ones
+ */
+export function checkExclusion(url: string, rules: string[], mode: ExclusionMode = 'exclude'): ExclusionResult {
+  const activeRules = rules.filter(rule => rule.trim());
+  if (activeRules.length === 0) {
+    return { blocked: false, match: null };
+  }
+
+  const match = findMatchingRule(url, activeRules);
+  return {
+    blocked: mode === 'allow' ? match === null : match !== null,
+    match
+  };
+}
+
+/**
+ * Parses a rule string, or returns null if it is malformed
+ */
+function parseRule(rule: string): ParsedRule | null {
+  if (validateExclusionRule(rule) !== null) {
+    return null;
+  }
+
+  const trimmed = rule.trim();
+  const regexMatch = REGEX_RULE_PATTERN.exec(trimmed);
+  if (regexMatch) {
+    return {
+      regex: new RegExp(regexMatch[1], 'i'),
+      scheme: null,
+      host: null,
+      hostPattern: null,
+      port: null,
+      path: null,
+      pathPattern: null
+    };
+  }
+
+  const match = RULE_PARTS_PATTERN.exec(trimmed) as RegExpExecArray;
+  const host = match[2].toLowerCase().replace(/^www\./, '');
+  const path = match[4] && match[4] !== '/' ? match[4] : null;
+
+  return {
+    regex: null,
+    scheme: match[1] ? match[1].toLowerCase() : null,
+    host,
+    hostPattern: host.includes('*') ? globToRegExp(host, '[a-z0-9.-]*') : null,
+    port: match[3] || null,
+    path,
+    pathPattern: path && path.includes('*') ? globToRegExp(path, '.*') : null
+  };
+}
+
+/**
+ * Checks a parsed rule against a URL
+ * @returns Why the rule matches, or null if it doesn't
+ */
+function explainMatch(rule: ParsedRule, url: URL): string | null {
+  if (rule.regex) {
+    return rule.regex.test(url.href) ? `URL matches ${rule.regex.source}` : null;
+  }
+
+  const reasons: string[] = [];
+
+  if (rule.scheme) {
+    if (url.protocol !== `${rule.scheme}:`) {
+      return null;
+    }
+    reasons.push(`scheme is ${rule.scheme}`);
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/^www\./, '');
+  if (rule.hostPattern) {
+    if (!rule.hostPattern.test(hostname)) {
+      return null;
+    }
+    reasons.push(`host ${hostname} matches ${rule.host}`);
+  } else if (rule.host) {
+    if (hostname !== rule.host && !hostname.endsWith('.' + rule.host)) {
+      return null;
+    }
+    reasons.push(hostname === rule.host ? `host is ${rule.host}` : `host is a subdomain of ${rule.host}`);
+  }
+
+  if (rule.port) {
+    if ((url.port || DEFAULT_PORTS[url.protocol]) !== rule.port) {
+      return null;
+    }
+    reasons.push(`port is ${rule.port}`);
+  }
+
+  if (rule.path) {
+    if (rule.pathPattern ? !rule.pathPattern.test(url.pathname) : !matchesPathPrefix(url.pathname, rule.path)) {
+      return null;
+    }
+    reasons.push(`path ${url.pathname} matches ${rule.path}`);
+  }
+
+  return reasons.join(', ');
+}
+
+/**
+ * Turns a glob into an anchored regular expression
+ * @param wildcard What a * stands for
+ */
+function globToRegExp(glob: string, wildcard: string): RegExp {
+  const pattern = glob
+    .split('*')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&'))
+    .join(wildcard);
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Checks if a path equals a prefix or continues it at a segment boundary (trailing slashes are ignored)
+ */
+export function matchesPathPrefix(pathname: string, prefix: string): boolean {
+  const path = pathname.replace(/\/$/, '');
+  const cleanPrefix = prefix.replace(/\/$/, '');
+  return path === cleanPrefix || path.startsWith(cleanPrefix + '/');
+}
@@ -0,0 +1,111 @@
+/**
+ * History of the URLs the extension has opened
+ *
+ * Every URL handed to a new tab is recorded in local storage (never synced) with the time,
+ * the page it came from, what triggered it and what came of it. Entries are kept newest first
+ * and pruned to the configured number and age whenever the history is written.
+ */
+
+/**
+ * What opened a URL: a right-click on a link, a context menu item, a selection of URLs,
+ * a keyboard shortcut, the clipboard shortcut, the address bar keyword, or the re-open button in the history itself
+ */
+export type OpenTrigger = 'directClick' | 'contextMenu' | 'selection' | 'shortcut' | 'clipboard' | 'omnibox' | 'history';
+
+/**
+ * What came of it: a new tab, an existing tab switched to, reloaded or left alone instead,
+ * a tab closed again because its batch was undone, or an error
+ */
+export type OpenOutcome = 'opened' | 'focused' | 'reloaded' | 'skipped' | 'undone' | 'failed';
+
+/**
+ * A single history record as stored
+ */
+export interface HistoryEntry {
+  url: string;
+  // Milliseconds since the epoch
+  openedAt: number;
+  // The page the URL was opened from, if there was one
+  sourceUrl?: string;
+  sourceTitle?: string;
+  trigger: OpenTrigger;
+  outcome: OpenOutcome;
+}
+
+/**
+ * Narrows the history to entries matching a search and filters
+ */
+export interface HistoryFilter {
+  // Matched case-insensitively against the URL and the source page's address and title
+  query?: string;
+  trigger?: OpenTrigger;
+  outcome?: OpenOutcome;
+}
+
+// Key of the history in local storage
+export const HISTORY_STORAGE_KEY = 'openHistory';
+
+// Names shown in the popup
+export const TRIGGER_LABELS: Record<OpenTrigger, string> = {
+  directClick: 'Direct click',
+  contextMenu: 'Context menu',
+  selection: 'Selection',
+  shortcut: 'Keyboard shortcut',
+  clipboard: 'Clipboard',
+  omnibox: 'Address bar',
+  history: 'History'
+};
+
+export const OUTCOME_LABELS: Record<OpenOutcome, string> = {
+  opened: 'Opened',
+  focused: 'Switched to open tab',
+  reloaded: 'Reloaded open tab',
+  skipped: 'Skipped, already open',
+  undone: 'Undone',
+  failed: 'Failed'
+};
+
+const DAY = 24 * 60 * 60 * 1000; // ms
+
+/**
+ * Drops entries past the retention limits
+ *
+ * @param entries History, newest first
+ * @param maxEntries Most entries to keep (0 for no limit)
+ * @param maxDays Days to keep an entry for (0 to keep them until the limit pushes them out)
+ * @param now Current time, in milliseconds since the epoch
+ */
+export function pruneHistory(
+  entries: HistoryEntry[],
+  maxEntries: number,
+  maxDays: number,
+  now: number = Date.now()
+): HistoryEntry[] {
+  const recent = maxDays > 0 ? entries.filter(entry => now - entry.openedAt <= maxDays * DAY) : entries;
+  return maxEntries > 0 ? recent.slice(0, maxEntries) : recent;
+}
+
+/**
+ * Finds the entries matching a search and filters, keeping their order
+ */
+export function filterHistory(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+  const query = (filter.query || '').trim().toLowerCase();
+
+  return entries.filter(entry =>
+    (!filter.trigger || entry.trigger === filter.trigger) &&
+    (!filter.outcome || entry.outcome === filter.outcome) &&
+    (!query || [entry.url, entry.sourceUrl, entry.sourceTitle].some(text => !!text && text.toLowerCase().includes(query)))
+  );
+}
+
+/**
+ * Checks if a value is a well-formed history entry (used when reading the stored history)
+ */
+export function isHistoryEntry(value: unknown): value is HistoryEntry {
+  const entry = value as HistoryEntry;
+  return !!entry &&
+    typeof entry.url === 'string' &&
+    typeof entry.openedAt === 'number' &&
+    Object.keys(TRIGGER_LABELS).includes(entry.trigger) &&
+    Object.keys(OUTCOME_LABELS).includes(entry.outcome);
+}
@@ -0,0 +1,213 @@
+/**
+ * Unwraps redirector and safe-link URLs to the destination they point at
+ *
+ * Everything is decoded offline from the wrapper URL itself - no requests are made.
+ * Patterns are strings of the form host[/path]?param:
+ *   l.facebook.com/l.php?u                      - the u parameter of l.facebook.com/l.php
+ *   *.safelinks.protection.outlook.com?url      - any subdomain, any path
+ * A * in the host matches one label. At the end of the host it matches a public suffix instead:
+ * a known top-level domain, optionally after a common second-level label, so google.* covers
+ * google.de and google.co.uk but not google.evil.com
+ */
+
+import { matchesPathPrefix } from './exclusionRules';
+import { KNOWN_TLDS } from './tldList';
+
+// Wrappers recognised out of the box
+export const BUILT_IN_REDIRECT_PATTERNS: string[] = [
+  // Search engines
+  'google.*/url?q',
+  'google.*/url?url',
+  'www.google.*/url?q',
+  'www.google.*/url?url',
+  'duckduckgo.com/l/?uddg',
+  // Mail safe-link services
+  '*.safelinks.protection.outlook.com?url',
+  'safelinks.protection.outlook.com?url',
+  // Social networks and chat
+  'l.facebook.com/l.php?u',
+  'lm.facebook.com/l.php?u',
+  'l.messenger.com/l.php?u',
+  'l.instagram.com?u',
+  'www.youtube.com/redirect?q',
+  'youtube.com/redirect?q',
+  'out.reddit.com?url',
+  'www.linkedin.com/redir/redirect?url',
+  'slack-redir.net/link?url',
+  'steamcommunity.com/linkfilter?url',
+  'steamcommunity.com/linkfilter?u',
+  'vk.com/away.php?to',
+  'away.vk.com/away.php?to',
+  'exit.sc/?url'
+];
+
+// Second-level labels that countries register domains under (google.co.uk, google.com.au)
+const SECOND_LEVEL_LABELS = 'ac|co|com|edu|gov|ne|net|or|org';
+
+// Wrappers nested inside each other are unwrapped up to this depth
+const MAX_UNWRAP_DEPTH = 5;
+
+/**
+ * Result of unwrapping a URL
+ */
+export interface UnwrapResult {
+  url: string;
+  // Hostnames of the wrappers that were removed, outermost first
+  unwrapped: string[];
+}
+
+interface RedirectPattern {
+  host: RegExp;
+  // The host ends in .*, so the top-level domain captured by the host expression must be a known one
+  anySuffix: boolean;
+  pathPrefix: string;
+  param: string;
+}
+
+/**
+ * Checks if a pattern string is well-formed (host[/path]?param)
+ */
+export function isValidRedirectPattern(pattern: string): boolean {
+  return parsePattern(pattern) !== null;
+}
+
+/**
+ * Replaces a redirector URL with its destination, following nested wrappers
+ *
+ * @param url The URL to unwrap
+ * @param customPatterns User-defined patterns, checked after the built-in ones
+ */
+export function unwrapRedirect(url: string, customPatterns: string[] = []): UnwrapResult {
+  const patterns = [...BUILT_IN_REDIRECT_PATTERNS, ...customPatterns]
+    .map(parsePattern)
+    .filter((pattern): pattern is RedirectPattern => pattern !== null);
+
+  const unwrapped: string[] = [];
+  let current = url;
+
+  for (let depth = 0; depth < MAX_UNWRAP_DEPTH; depth++) {
+    let parsed: URL;
+    try {
+      parsed = new URL(current);
+    } catch (e) {
+      break;
+    }
+
+    const destination = decodeProofpoint(parsed) || decodeFromPatterns(parsed, patterns);
+    if (!destination) {
+      break;
+    }
+
+    unwrapped.push(parsed.hostname);
+    current = destination;
+  }
+
+  return { url: current, unwrapped };
+}
+
+/**
+ * Parses a pattern string, or returns null if it is malformed
+ */
+function parsePattern(pattern: string): RedirectPattern | null {
+  const match = /^([a-z0-9*.-]+)(\/[^?\s]*)?\?([^\s=&#]+)$/i.exec(pattern.trim());
+  if (!match || !/[a-z0-9]/i.test(match[1])) {
+    return null;
+  }
+
+  // A trailing * stands for a public suffix (google.de, google.co.uk), any other * for a single label
+  const host = match[1].toLowerCase();
+  const anySuffix = host.endsWith('.*');
+  const hostPattern = (anySuffix ? host.slice(0, -2) : host)
+    .split('*')
+    .map(part => part.replace(/[.-]/g, '\\$&'))
+    .join('[a-z0-9-]+');
+  const suffixPattern = anySuffix ? `\\.(?:(?:${SECOND_LEVEL_LABELS})\\.)?([a-z0-9-]+)` : '';
+
+  return {
+    host: new RegExp(`^${hostPattern}${suffixPattern}$`),
+    anySuffix,
+    pathPrefix: (match[2] || '/').replace(/\/$/, '') || '/',
+    param: match[3]
+  };
+}
+
+/**
+ * Reads the destination from the first pattern matching the URL's host and path
+ */
+function decodeFromPatterns(url: URL, patterns: RedirectPattern[]): string | null {
+  const hostname = url.hostname.toLowerCase();
+
+  for (const pattern of patterns) {
+    const hostMatch = pattern.host.exec(hostname);
+    if (!hostMatch || (pattern.anySuffix && !KNOWN_TLDS.has(hostMatch[1])) ||
+        !matchesPathPrefix(url.pathname, pattern.pathPrefix)) {
+      continue;
+    }
+
+    const destination = asHttpUrl(url.searchParams.get(pattern.param));
+    if (destination) {
+      return destination;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Decodes Proofpoint URL Defense links
+ * v2 encodes the target in the u parameter with - for % and _ for /;
+ * v3 embeds it between __ markers (targets with substituted characters are left alone)
+ */
+function decodeProofpoint(url: URL): string | null {
+  const hostname = url.hostname.toLowerCase();
+
+  if (hostname === 'urldefense.proofpoint.com' && url.pathname.startsWith('/v2/url')) {
+    const encoded = url.searchParams.get('u');
+    if (!encoded) {
+      return null;
+    }
+    try {
+      return asHttpUrl(decodeURIComponent(encoded.replace(/-/g, '%').replace(/_/g, '/')));
+    } catch (e) {
+      return null;
+    }
+  }
+
+  if ((hostname === 'urldefense.com' || hostname === 'urldefense.proofpoint.com') &&
+      url.pathname.startsWith('/v3/__')) {
+    const match = /\/v3\/__(.+?)__;/.exec(url.href);
+    return match && !match[1].includes('*') ? asHttpUrl(match[1]) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Returns the value if it is an absolute http(s) URL, decoding one extra
+ * level of percent-encoding that some wrappers apply
+ */
+function asHttpUrl(value: string | null): string | null {
+  if (!value) {
+    return null;
+  }
+
+  let candidate = value.trim();
+  if (/^https?%3A/i.test(candidate)) {
+    try {
+      candidate = decodeURIComponent(candidate);
+    } catch (e) {
+      return null;
+    }
+  }
+
+  if (!/^https?:\/\//i.test(candidate)) {
+    return null;
+  }
+
+  try {
+    new URL(candidate);
+    return candidate;
+  } catch (e) {
+    return null;
+  }
+}
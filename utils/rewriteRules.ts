@@ -0,0 +1,99 @@
+/**
+ * User-defined URL rewrite rules
+ *
+ * Each rule is a regular expression matched against the full URL (case-insensitive)
+ * and a replacement template that may use capture groups ($1, $2, $<name>).
+ * Enabled rules run in order, each one seeing the result of the previous.
+ */
+
+/**
+ * A single rewrite rule as stored in settings
+ */
+export interface RewriteRule {
+  match: string;
+  replacement: string;
+  enabled: boolean;
+}
+
+/**
+ * Result of rewriting a URL
+ */
+export interface RewriteResult {
+  url: string;
+  // Indexes of the rules that changed the URL, in the order they ran
+  applied: number[];
+}
+
+/**
+ * Checks a rule for problems
+ * @returns An error message, or null if the rule is usable
+ */
+export function validateRewriteRule(rule: RewriteRule): string | null {
+  if (!rule.match.trim()) {
+    return 'Match pattern is empty';
+  }
+
+  try {
+    new RegExp(rule.match, 'i');
+  } catch (e) {
+    return `Invalid pattern: ${(e as Error).message}`;
+  }
+
+  return null;
+}
+
+/**
+ * Runs the enabled rules over a URL in order
+ * A rule whose result is not an absolute URL is skipped, so a bad template can't break opening
+ *
+ * @param url The URL to rewrite
+ * @param rules Rules in the order they should run
+ */
+export function applyRewriteRules(url: string, rules: RewriteRule[]): RewriteResult {
+  const applied: number[] = [];
+  let current = url;
+
+  rules.forEach((rule, index) => {
+    if (!rule.enabled || validateRewriteRule(rule) !== null) {
+      return;
+    }
+
+    const pattern = new RegExp(rule.match, 'i');
+    if (!pattern.test(current)) {
+      return;
+    }
+
+    const rewritten = current.replace(pattern, rule.replacement);
+    if (rewritten === current || !isAbsoluteUrl(rewritten)) {
+      return;
+    }
+
+    applied.push(index);
+    current = rewritten;
+  });
+
+  return { url: current, applied };
+}
+
+/**
+ * Checks if a value is a well-formed rule object (used when importing settings)
+ */
+export function isRewriteRule(value: unknown): value is RewriteRule {
+  const rule = value as RewriteRule;
+  return !!rule &&
+    typeof rule.match === 'string' &&
+    typeof rule.replacement === 'string' &&
+    typeof rule.enabled === 'boolean';
+}
+
+/**
+ * Checks if a string parses as an absolute URL
+ */
+function isAbsoluteUrl(url: string): boolean {
+  try {
+    new URL(url);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Per-site overrides of the global behavior settings
+ *
+ * Each override names a site using the exclusion rule syntax (usually just a domain,
+ * like github.com, which also covers its subdomains) and the settings it replaces there.
+ * The first override matching the page wins; settings it leaves out fall back to the global value.
+ */
+
+import { findMatchingRule, validateExclusionRule } from './exclusionRules';
+
+/**
+ * The settings a site override may replace
+ */
+export interface SiteSettings {
+  directLinkOpen: boolean;
+  activateTabs: boolean;
+  urlPatternType: string;
+  debounceThreshold: number;
+  clickDistanceThreshold: number;
+  clickTimeThreshold: number;
+}
+
+/**
+ * A single site override as stored in settings
+ */
+export interface SiteOverride {
+  site: string;
+  settings: Partial<SiteSettings>;
+}
+
+// Expected type of each overridable setting, used to check imported or stored values
+const SETTING_TYPES: Record<keyof SiteSettings, 'boolean' | 'string' | 'number'> = {
+  directLinkOpen: 'boolean',
+  activateTabs: 'boolean',
+  urlPatternType: 'string',
+  debounceThreshold: 'number',
+  clickDistanceThreshold: 'number',
+  clickTimeThreshold: 'number'
+};
+
+/**
+ * Finds the override that applies to a page
+ *
+ * @param pageUrl Address of the page the action started on
+ * @param overrides Overrides in the order they were added
+ */
+export function findSiteOverride(pageUrl: string | undefined, overrides: SiteOverride[]): SiteOverride | null {
+  if (!pageUrl || overrides.length === 0) {
+    return null;
+  }
+
+  const match = findMatchingRule(pageUrl, overrides.map(override => override.site));
+  return match ? overrides[match.index] : null;
+}
+
+/**
+ * Layers the override for a page on top of the global settings
+ * Values of the wrong type are ignored, so a damaged override can't break the global behavior
+ *
+ * @param base The global settings
+ * @param pageUrl Address of the page the action started on
+ * @param overrides Overrides in the order they were added
+ */
+export function resolveSiteSettings<T extends SiteSettings>(
+  base: T,
+  pageUrl: string | undefined,
+  overrides: SiteOverride[]
+): T {
+  const override = findSiteOverride(pageUrl, overrides);
+  if (!override) {
+    return base;
+  }
+
+  const picked: Partial<SiteSettings> = {};
+  (Object.keys(SETTING_TYPES) as (keyof SiteSettings)[]).forEach(key => pickSetting(picked, override.settings, key));
+
+  return { ...base, ...picked };
+}
+
+/**
+ * Copies one setting from an override, if its value has the right type
+ */
+function pickSetting<K extends keyof SiteSettings>(
+  target: Partial<SiteSettings>,
+  source: Partial<SiteSettings>,
+  key: K
+): void {
+  const value = source[key];
+  if (typeof value === SETTING_TYPES[key]) {
+    target[key] = value;
+  }
+}
+
+/**
+ * Checks if two sets of overridden settings are the same, setting by setting, whatever their key order
+ */
+export function sameSiteSettings(a: Partial<SiteSettings>, b: Partial<SiteSettings>): boolean {
+  return (Object.keys(SETTING_TYPES) as (keyof SiteSettings)[]).every(key => a[key] === b[key]);
+}
+
+/**
+ * Checks if two override lists name the same sites in the same order, with the same settings
+ */
+export function sameSiteOverrides(a: SiteOverride[], b: SiteOverride[]): boolean {
+  return a.length === b.length && a.every((override, index) =>
+    override.site === b[index].site && sameSiteSettings(override.settings, b[index].settings)
+  );
+}
+
+/**
+ * Checks if a value is a well-formed override object (used when loading or importing settings)
+ */
+export function isSiteOverride(value: unknown): value is SiteOverride {
+  const override = value as SiteOverride;
+  return !!override &&
+    typeof override.site === 'string' &&
+    validateExclusionRule(override.site) === null &&
+    !!override.settings &&
+    typeof override.settings === 'object';
+}
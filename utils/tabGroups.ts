@@ -0,0 +1,68 @@
+/**
+ * Tab group helpers for grouping the tabs of an opened batch
+ *
+ * Group names come from a template that may use:
+ *   {title} - title of the page the links were opened from
+ *   {host}  - hostname of that page, without www.
+ *   {count} - number of links in the batch
+ *
+ * Tab groups are a Chromium API; where they are missing (Firefox) grouping is skipped.
+ */
+
+import { browserAPI } from './browserAPI';
+
+// Colors accepted by chrome.tabGroups.update, in the order the browser shows them
+export const TAB_GROUP_COLORS = ['grey', 'blue', 'red', 'yellow', 'green', 'pink', 'purple', 'cyan', 'orange'];
+
+// Used when the template is empty or the source page is unknown
+const FALLBACK_GROUP_TITLE = 'Opened links';
+
+// Longer names crowd out the tabs themselves
+const MAX_GROUP_TITLE_LENGTH = 40;
+
+/**
+ * Checks if the browser can group tabs
+ */
+export function supportsTabGroups(): boolean {
+  return typeof browserAPI.tabs.group === 'function' &&
+    typeof browserAPI.tabGroups !== 'undefined' &&
+    typeof browserAPI.tabGroups.update === 'function';
+}
+
+/**
+ * Checks if a value is a color tab groups accept
+ */
+export function isTabGroupColor(value: unknown): value is chrome.tabGroups.ColorEnum {
+  return typeof value === 'string' && TAB_GROUP_COLORS.includes(value);
+}
+
+/**
+ * Fills in a group name template for the page a batch was opened from
+ *
+ * @param template Template with {title}, {host} and {count} placeholders
+ * @param source The source page, if it is still open
+ * @param count Number of links in the batch
+ */
+export function formatGroupTitle(
+  template: string,
+  source: { title?: string; url?: string } | undefined,
+  count: number
+): string {
+  let host = '';
+  try {
+    host = source?.url ? new URL(source.url).hostname.replace(/^www\./, '') : '';
+  } catch (e) {
+    // Not a URL with a host (e.g. about:blank), leave it empty
+  }
+
+  const title = template
+    .replace(/\{title\}/g, source?.title || host)
+    .replace(/\{host\}/g, host)
+    .replace(/\{count\}/g, String(count))
+    .trim();
+
+  if (!title) {
+    return FALLBACK_GROUP_TITLE;
+  }
+  return title.length > MAX_GROUP_TITLE_LENGTH ? title.slice(0, MAX_GROUP_TITLE_LENGTH - 1) + '…' : title;
+}
@@ -1,68 +1,768 @@
+import { KNOWN_TLDS } from './tldList';
+
+// Splits a URL into scheme, userinfo, host, port and path/query/fragment
+// The host is either a bracketed IPv6 literal or a (possibly Unicode) hostname
+const URL_PARTS_PATTERN = /^(?:(https?|file):\/\/)?(?:([^\/?#@\[\]]*)@)?(\[[^\]\/?#]*\]|[^\/?#:\[\]]*)(?::(\d*))?([\/?#].*)?$/i;
+
+// Everything up to the host of a URL that has a scheme, then the host itself
+const HOST_PREFIX_PATTERN = /^((?:https?|file):\/\/(?:[^\/?#@\[\]]*@)?)([^\/?#:\[\]]*)/i;
+
+// A single hostname label (RFC 1123)
+const LABEL_PATTERN = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+
+const IPV4_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+// Root-relative (/docs), dot-relative (./a, ../a) and protocol-relative (//host/path) references
+const RELATIVE_REFERENCE_PATTERN = /^(?:\/|\.\.?\/)[^\s]*[a-z0-9]/i;
+
+/**
+ * Per-invocation options for URL extraction
+ */
+export interface ExtractOptions {
+  // Turn defanged indicators (hxxp://, [.], (.), [:], {dot}) back into URLs
+  refang?: boolean;
+  // Shorthand tokens (ticket IDs, PR numbers) to expand into URLs
+  smartPatterns?: SmartPattern[];
+  // Page address relative references are resolved against; without it they are ignored
+  baseUrl?: string;
+}
+
+/**
+ * A user-defined shorthand expansion: tokens matching the regular expression
+ * become the URL template, with $& for the whole match and $1, $2 for capture groups
+ * e.g. \bPROJ-\d+\b → https://jira.example.com/browse/$&
+ */
+export interface SmartPattern {
+  pattern: string;
+  template: string;
+  enabled: boolean;
+}
+
+/**
+ * Markup formats whose link targets are pulled out before tokenizing
+ */
+export type MarkupFormat = 'markdown' | 'html' | 'csv' | 'tsv';
+
+/**
+ * URLs found in a piece of text, with the markup formats detected along the way
+ */
+export interface ExtractionResult {
+  urls: string[];
+  formats: MarkupFormat[];
+  // How many of the URLs came from smart pattern expansions
+  expansions: number;
+}
+
+interface UrlParts {
+  scheme?: string;
+  userinfo?: string;
+  host: string;
+  port?: string;
+  path?: string;
+}
+
 /**
  * Checks if a string looks like a valid URL
  * Accepts patterns like: example.com, www.example.com, https://example.com
  * 
+ * Bare hostnames are checked against the bundled IANA TLD snapshot. The modes differ as follows:
+ * - strict: requires a scheme or a www. prefix, and a known TLD
+ * - standard: bare hostnames need a known TLD; an explicit scheme accepts any well-formed host
+ * - relaxed: like standard, and also accepts bare hosts with an unknown TLD
+ *   when they carry a port (devbox:3000) or a dotted host and a path (build.lan/status)
+ * 
  * @param text The text to check
  * @param patternType The pattern sensitivity: 'strict', 'standard', or 'relaxed'
  */
 export function isValidUrl(text: string, patternType: string = 'standard'): boolean {
   // Trim whitespace and check if empty
   const trimmedText = text.trim();
-  if (!trimmedText) {
+  if (!trimmedText || /\s/.test(trimmedText)) {
     return false;
   }
 
-  // Choose URL regex pattern based on pattern type
-  let urlPattern: RegExp;
-  
+  const parts = parseUrlParts(trimmedText);
+  if (!parts) {
+    return false;
+  }
+
+  // file:// URLs have no host to validate, only a path
+  if (parts.scheme === 'file') {
+    return !!parts.path && parts.path.length > 1;
+  }
+
+  // Credentials without a scheme are far more likely to be an email address
+  if (!parts.host || (parts.userinfo !== undefined && !parts.scheme)) {
+    return false;
+  }
+
+  // An empty or out-of-range port makes the whole URL invalid
+  if (parts.port !== undefined && !isValidPort(parts.port)) {
+    return false;
+  }
+
+  const hasScheme = !!parts.scheme;
+
+  // localhost and IP addresses carry no TLD
+  if (/^localhost$/i.test(parts.host) || isIPv4(parts.host) || isIPv6Literal(parts.host)) {
+    return hasScheme || patternType !== 'strict';
+  }
+
+  // Internationalized hostnames are validated in their punycode form
+  const asciiHost = domainToAscii(parts.host);
+  if (!asciiHost) {
+    return false;
+  }
+
+  const labels = asciiHost.replace(/\.$/, '').split('.');
+  if (!labels.every(label => LABEL_PATTERN.test(label))) {
+    return false;
+  }
+
+  const hasKnownTld = labels.length > 1 && KNOWN_TLDS.has(labels[labels.length - 1].toLowerCase());
+
   switch (patternType) {
     case 'strict':
-      // Strict pattern - only matches well-formed URLs with common TLDs
-      urlPattern = /^(https?:\/\/|file:\/\/|www\.)([-a-zA-Z0-9@:%._\+~#=]{1,256}\.[a-zA-Z0-9()]{1,6})\b([-a-zA-Z0-9()@:%_\+.~#?&//=]*)/i;
-      break;
-      
+      return hasKnownTld && (hasScheme || /^www\./i.test(parts.host));
+
     case 'relaxed':
-      // Relaxed pattern - catches more potential URLs including single-word domains
-      urlPattern = /^(https?:\/\/|file:\/\/|www\.)?([a-zA-Z0-9][-a-zA-Z0-9]*(\.[a-zA-Z0-9][-a-zA-Z0-9]*)*|localhost|\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3})(:\d+)?(\/[^/\s]*)*$/i;
-      break;
-      
+      return hasKnownTld || hasScheme || parts.port !== undefined ||
+        (labels.length > 1 && !!parts.path && parts.path.length > 1);
+
     case 'standard':
     default:
-      // Standard pattern (default) - balanced approach
-      urlPattern = /^(https?:\/\/|file:\/\/|www\.)?(localhost|\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}|[a-zA-Z0-9][-a-zA-Z0-9]*(\.[a-zA-Z0-9][-a-zA-Z0-9]*)+)(:\d+)?(\/[^/\s]*)*/i;
-      break;
+      return hasKnownTld || hasScheme;
   }
-  
-  return urlPattern.test(trimmedText);
+}
+
+/**
+ * Splits a URL candidate into its components, or returns null if it cannot be parsed
+ */
+function parseUrlParts(text: string): UrlParts | null {
+  const match = URL_PARTS_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  return {
+    scheme: match[1]?.toLowerCase(),
+    userinfo: match[2],
+    host: match[3],
+    port: match[4],
+    path: match[5]
+  };
+}
+
+/**
+ * Checks if a string is a dotted IPv4 address with octets in range
+ */
+function isIPv4(host: string): boolean {
+  return IPV4_PATTERN.test(host) && host.split('.').every(octet => parseInt(octet, 10) <= 255);
+}
+
+/**
+ * Checks if a host is a bracketed IPv6 literal, like [::1] or [2001:db8::1]
+ */
+function isIPv6Literal(host: string): boolean {
+  if (!/^\[[0-9a-f:.]+\]$/i.test(host)) {
+    return false;
+  }
+
+  try {
+    new URL(`http://${host}/`);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Converts a hostname to its ASCII (punycode) form, e.g. münchen.de → xn--mnchen-3ya.de
+ * ASCII hostnames are returned unchanged; returns null if the hostname is not valid
+ */
+function domainToAscii(host: string): string | null {
+  if (!/[^\x00-\x7F]/.test(host)) {
+    return host;
+  }
+
+  try {
+    return new URL(`http://${host}/`).hostname || null;
+  } catch (e) {
+    return null;
+  }
+}
+
+/**
+ * Checks if a port string is a number between 1 and 65535
+ */
+function isValidPort(port: string): boolean {
+  const portNumber = parseInt(port, 10);
+  return /^\d{1,5}$/.test(port) && portNumber > 0 && portNumber <= 65535;
 }
 
 /**
  * Ensures a URL has a protocol (defaults to https:// if none is present)
+ * Unicode hostnames are converted to punycode so tabs open the intended site
  */
 export function normalizeUrl(url: string): string {
   const trimmedUrl = url.trim();
   
   // Check for existing protocol
   if (/^(https?|file):\/\//i.test(trimmedUrl)) {
-    return trimmedUrl;
+    return toAsciiHost(trimmedUrl);
   }
   
-  // Check if it's localhost
-  if (/^localhost(:\d+)?/i.test(trimmedUrl)) {
+  // Check if it's localhost (including the IPv6 loopback address)
+  if (/^(localhost|\[::1\])(:\d+)?/i.test(trimmedUrl)) {
     return `http://${trimmedUrl}`;
   }
   
   // Add https:// for all other URLs
-  return `https://${trimmedUrl}`;
+  return toAsciiHost(`https://${trimmedUrl}`);
 }
 
 /**
- * Extracts multiple URLs from text (separated by newlines)
+ * Replaces a Unicode hostname in a URL with its punycode form
+ */
+function toAsciiHost(url: string): string {
+  const match = HOST_PREFIX_PATTERN.exec(url);
+  if (!match) {
+    return url;
+  }
+  
+  const asciiHost = domainToAscii(match[2]);
+  if (!asciiHost || asciiHost === match[2]) {
+    return url;
+  }
+  
+  return match[1] + asciiHost + url.slice(match[0].length);
+}
+
+/**
+ * Checks if a text is nothing but URLs, one or more separated by whitespace
+ * Used where a URL is acted on without asking, so a sentence that merely mentions one doesn't qualify
+ * 
+ * @param text The text to check
+ * @param patternType The pattern sensitivity: 'strict', 'standard', or 'relaxed'
+ */
+export function containsOnlyUrls(text: string, patternType: string = 'standard'): boolean {
+  const tokens = text.split(/\s+/).filter(Boolean);
+  return tokens.length > 0 && tokens.every(token => isValidUrl(token, patternType));
+}
+
+/**
+ * Extracts every URL found in arbitrary text
+ * Handles URLs embedded in prose, wrapped in quotes, brackets or parentheses,
+ * followed by punctuation, and hard-wrapped across lines (as in emails)
  * 
  * @param text The text to extract URLs from
  * @param patternType The pattern sensitivity: 'strict', 'standard', or 'relaxed'
+ * @param options Per-invocation extraction options
+ */
+export function extractUrls(text: string, patternType: string = 'standard', options: ExtractOptions = {}): string[] {
+  return extractUrlsWithFormats(text, patternType, options).urls;
+}
+
+/**
+ * Extracts every URL found in arbitrary text and reports which markup parsers fired
+ * Link targets in Markdown, HTML and CSV/TSV are pulled out before the text is tokenized
+ * 
+ * @param text The text to extract URLs from
+ * @param patternType The pattern sensitivity: 'strict', 'standard', or 'relaxed'
+ * @param options Per-invocation extraction options
+ */
+export function extractUrlsWithFormats(
+  text: string,
+  patternType: string = 'standard',
+  options: ExtractOptions = {}
+): ExtractionResult {
+  const found: { url: string; index: number }[] = [];
+  const refanged = options.refang ? refangText(text) : text;
+  const { text: unwrapped, formats } = unwrapMarkup(refanged);
+  const source = rejoinWrappedLines(unwrapped, patternType);
+  
+  // Spans of accepted URLs, so shorthand inside a URL (like a #fragment) isn't expanded
+  const urlSpans: [number, number][] = [];
+  tokenize(source).forEach(token => {
+    const candidate = cleanCandidate(token.text);
+    if (!candidate) {
+      return;
+    }
+    
+    const url = isValidUrl(candidate, patternType)
+      ? normalizeUrl(candidate)
+      : options.baseUrl ? resolveRelativeUrl(candidate, options.baseUrl, patternType) : null;
+    if (url) {
+      found.push({ url, index: token.start });
+      urlSpans.push([token.start, token.end]);
+    }
+  });
+  
+  let expansions = 0;
+  (options.smartPatterns || []).forEach(smartPattern => {
+    expandSmartPattern(source, smartPattern).forEach(expansion => {
+      if (!urlSpans.some(([start, end]) => expansion.index >= start && expansion.index < end)) {
+        found.push(expansion);
+        expansions++;
+      }
+    });
+  });
+  
+  // Keep URLs and expansions in the order they appear in the text
+  const urls = found
+    .sort((a, b) => a.index - b.index)
+    .map(entry => entry.url);
+  
+  return { urls, formats, expansions };
+}
+
+/**
+ * Checks a smart pattern for problems
+ * @returns An error message, or null if the pattern is usable
+ */
+export function validateSmartPattern(smartPattern: SmartPattern): string | null {
+  if (!smartPattern.pattern.trim()) {
+    return 'Pattern is empty';
+  }
+  
+  let regex: RegExp;
+  try {
+    regex = new RegExp(smartPattern.pattern);
+  } catch (e) {
+    return `Invalid pattern: ${(e as Error).message}`;
+  }
+  
+  // A pattern that matches nothing at all would expand between every character
+  if (regex.test('')) {
+    return 'Pattern matches empty text';
+  }
+  
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(smartPattern.template.trim())) {
+    return 'Template must be an absolute URL, like https://...';
+  }
+  
+  return null;
+}
+
+/**
+ * Fills a replacement template from a regular expression match
+ * Supports $& (whole match), $1-$99 (capture groups), $<name> (named groups) and $$ (a literal $)
+ */
+function fillTemplate(template: string, match: RegExpExecArray): string {
+  return template.replace(/\$(\$|&|<([^>]+)>|(\d{1,2}))/g, (token, kind: string, name?: string, group?: string) => {
+    if (kind === '$') {
+      return '$';
+    }
+    if (kind === '&') {
+      return match[0];
+    }
+    if (name !== undefined) {
+      return match.groups?.[name] ?? '';
+    }
+    const groupIndex = parseInt(group as string, 10);
+    return groupIndex < match.length ? (match[groupIndex] ?? '') : token;
+  });
+}
+
+/**
+ * Checks if a value is a well-formed smart pattern object (used when importing settings)
+ */
+export function isSmartPattern(value: unknown): value is SmartPattern {
+  const smartPattern = value as SmartPattern;
+  return !!smartPattern &&
+    typeof smartPattern.pattern === 'string' &&
+    typeof smartPattern.template === 'string' &&
+    typeof smartPattern.enabled === 'boolean';
+}
+
+/**
+ * Finds the tokens matching a smart pattern and fills in its URL template for each
+ */
+function expandSmartPattern(text: string, smartPattern: SmartPattern): { url: string; index: number }[] {
+  if (!smartPattern.enabled || validateSmartPattern(smartPattern) !== null) {
+    return [];
+  }
+  
+  const regex = new RegExp(smartPattern.pattern, 'g');
+  const template = smartPattern.template.trim();
+  const expansions: { url: string; index: number }[] = [];
+  let match: RegExpExecArray | null;
+  
+  while ((match = regex.exec(text)) !== null) {
+    // Guard against patterns that can still produce zero-length matches mid-text
+    if (match[0] === '') {
+      regex.lastIndex++;
+      continue;
+    }
+    
+    const url = fillTemplate(template, match);
+    if (isValidUrl(url)) {
+      expansions.push({ url: normalizeUrl(url), index: match.index });
+    }
+  }
+  
+  return expansions;
+}
+
+// Markdown inline links and images: [label](target "title"), with one level of nested parentheses in the target
+const MARKDOWN_LINK_PATTERN = /!?\[((?:[^\[\]]|\[[^\[\]]*\])*)\]\(\s*(?:<([^<>]+)>|((?:[^()\s]|\([^()\s]*\))+))(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?\s*\)/g;
+
+// Markdown reference definitions: [label]: target "title"
+const MARKDOWN_REFERENCE_PATTERN = /^ {0,3}\[[^\]]+\]:\s*<?([^\s>]+)>?(?:\s+(?:"[^"]*"|'[^']*'|\([^)]*\)))?[ \t]*$/gm;
+
+// Whole anchor elements, so the link text is not picked up next to the href
+const HTML_ANCHOR_PATTERN = /<a\b([^>]*)>[\s\S]*?<\/a\s*>/gi;
+
+// Any other opening tag that may carry an href or src attribute
+const HTML_TAG_PATTERN = /<[a-z][a-z0-9-]*\b([^>]*)>/gi;
+
+// href and src attribute values, double-quoted, single-quoted or bare
+const HTML_LINK_ATTRIBUTE_PATTERN = /\s(?:href|src)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+
+/**
+ * Replaces Markdown links, HTML anchors/src attributes and CSV/TSV cells
+ * with the plain link targets they contain, and lists the formats detected
+ */
+function unwrapMarkup(text: string): { text: string; formats: MarkupFormat[] } {
+  const formats: MarkupFormat[] = [];
+  let result = text;
+  
+  // Delimited data goes first, since cells may hold Markdown or HTML themselves
+  const delimiter = detectDelimiter(result);
+  if (delimiter) {
+    formats.push(delimiter === '\t' ? 'tsv' : 'csv');
+    result = parseDelimited(result, delimiter)
+      .map(row => row.join('\n'))
+      .join('\n');
+  }
+  
+  let foundHtml = false;
+  result = result.replace(HTML_ANCHOR_PATTERN, (match, attributes: string) => {
+    foundHtml = true;
+    return ` ${extractLinkAttributes(attributes).join(' ')} `;
+  });
+  result = result.replace(HTML_TAG_PATTERN, (match, attributes: string) => {
+    const targets = extractLinkAttributes(attributes);
+    if (targets.length === 0) {
+      return match;
+    }
+    foundHtml = true;
+    return ` ${targets.join(' ')} `;
+  });
+  if (foundHtml) {
+    formats.push('html');
+  }
+  
+  let foundMarkdown = false;
+  result = result.replace(MARKDOWN_LINK_PATTERN, (match, label: string, bracketedTarget?: string, target?: string) => {
+    foundMarkdown = true;
+    return ` ${asLinkTarget(bracketedTarget || target || '')} `;
+  });
+  result = result.replace(MARKDOWN_REFERENCE_PATTERN, (match, target: string) => {
+    foundMarkdown = true;
+    return ` ${asLinkTarget(target)} `;
+  });
+  if (foundMarkdown) {
+    formats.push('markdown');
+  }
+  
+  return { text: result, formats };
+}
+
+/**
+ * Collects the decoded href and src values from a tag's attribute string
+ */
+function extractLinkAttributes(attributes: string): string[] {
+  const targets: string[] = [];
+  let match: RegExpExecArray | null;
+  
+  HTML_LINK_ATTRIBUTE_PATTERN.lastIndex = 0;
+  while ((match = HTML_LINK_ATTRIBUTE_PATTERN.exec(` ${attributes}`)) !== null) {
+    const value = match[1] ?? match[2] ?? match[3] ?? '';
+    if (value.trim()) {
+      targets.push(asLinkTarget(decodeHtmlEntities(value)));
+    }
+  }
+  
+  return targets;
+}
+
+/**
+ * Makes a link target safe to drop back into text as a single token
+ */
+function asLinkTarget(target: string): string {
+  return target.trim().replace(/\s+/g, '%20');
+}
+
+/**
+ * Decodes the HTML entities that commonly appear inside attribute values
+ */
+function decodeHtmlEntities(value: string): string {
+  const namedEntities: { [name: string]: string } = { amp: '&', quot: '"', apos: "'", lt: '<', gt: '>' };
+  
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const codePoint = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10FFFF ? String.fromCodePoint(codePoint) : match;
+    }
+    return namedEntities[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Header cells that name a column of links
+const LINK_HEADER_PATTERN = /^(?:urls?|uris?|links?|hrefs?|websites?|homepages?|domains?)$/i;
+
+// Cells holding nothing but an absolute or www. URL
+const URL_CELL_PATTERN = /^(?:[a-z][a-z0-9+.-]*:\/\/|www\.)\S+$/i;
+
+// Cells opening with a quote, at the start of a line or after a comma
+const QUOTED_CELL_PATTERN = /(?:^|,)[ \t]*"/gm;
+
+/**
+ * Detects tab- or comma-separated data
+ * TSV needs a tab on every line. CSV needs at least two lines with the same number of cells, and
+ * on top of that a header naming a link column or mostly URL or quoted cells, so ordinary prose
+ * with commas is left to the tokenizer. URLs with commas in them (map coordinates, image
+ * transformations) are never split: text holding one is not treated as CSV
+ */
+function detectDelimiter(text: string): ',' | '\t' | null {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) {
+    return null;
+  }
+  
+  if (lines.every(line => line.includes('\t'))) {
+    return '\t';
+  }
+  
+  const hasUrlWithComma = text.split(/\s+/).some(token => token.includes(',') && isValidUrl(token));
+  if (hasUrlWithComma) {
+    return null;
+  }
+  
+  const rows = parseDelimited(text, ',').filter(row => row.some(cell => cell.trim()));
+  if (rows.length < 2 || rows[0].length < 2 || rows.some(row => row.length !== rows[0].length)) {
+    return null;
+  }
+  
+  const cells = rows.flat().map(cell => cell.trim()).filter(Boolean);
+  const urlCells = cells.filter(cell => URL_CELL_PATTERN.test(cell)).length;
+  const quotedCells = (text.match(QUOTED_CELL_PATTERN) || []).length;
+  
+  const hasLinkHeader = rows[0].some(cell => LINK_HEADER_PATTERN.test(cell.trim()));
+  const mostlyUrlsOrQuoted = Math.max(urlCells, quotedCells) * 2 > cells.length;
+  
+  return hasLinkHeader || mostlyUrlsOrQuoted ? ',' : null;
+}
+
+/**
+ * Parses delimited text into rows of cells, honouring quoted cells and doubled quotes
+ */
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && !cell.trim()) {
+      inQuotes = true;
+      cell = '';
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  
+  row.push(cell);
+  rows.push(row);
+  
+  return rows;
+}
+
+// Common defang conventions used in threat-intel reports, with their replacements
+const REFANG_RULES: [RegExp, string][] = [
+  // hxxp://, hXXps://
+  [/\bhxxp(s?)(?=\[?:)/gi, 'http$1'],
+  // http[:]//, https[://]
+  [/\[(:\/\/|:)\]/g, '$1'],
+  // example[.]com, example(.)com, example{.}com, example[dot]com, example{dot}com
+  [/[\[({]\s*(?:\.|dot)\s*[\])}]/gi, '.'],
+  // example\.com
+  [/\\\./g, '.'],
+  // example.com[/]path
+  [/\[\/\]/g, '/']
+];
+
+/**
+ * Turns defanged URLs back into real ones, e.g. hxxps://evil[.]com → https://evil.com
+ */
+export function refangText(text: string): string {
+  return REFANG_RULES.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+// Runs of characters between the separators of URL candidates in running text
+const TOKEN_PATTERN = /[^\s<>"`“”«»]+/g;
+
+// Opening punctuation that can precede a URL but never starts one
+// (a bracket that opens an IPv6 literal like [::1]:8080 is kept)
+const LEADING_PUNCTUATION = /^(?:[({'‘]|\[(?![0-9a-f:.]+\]))+/i;
+
+// Punctuation that ends a sentence or clause rather than the URL before it
+const TRAILING_PUNCTUATION = /[.,;:!?'‘’…]+$/;
+
+// Closing brackets mapped to their opening counterparts, used for balancing
+const BRACKET_PAIRS: { [closing: string]: string } = { ')': '(', ']': '[', '}': '{' };
+
+// Characters a mail client typically breaks a long URL after
+const WRAP_BREAK_CHARS = /[\/\-?&=_%#~+]$/;
+
+/**
+ * Rejoins URLs that were hard-wrapped across lines
+ * Covers the RFC 3986 <URL:...> convention and unbracketed URLs
+ * broken after a delimiter with the remainder on the next line
+ */
+function rejoinWrappedLines(text: string, patternType: string): string {
+  // Whitespace inside angle brackets around a URL is never part of it
+  const unbracketed = text.replace(/<(?:URL:)?([^<>]+)>/gi, (match, inner: string) =>
+    /^\s*((https?|file):\/\/|www\.)/i.test(inner) ? `<${inner.replace(/\s+/g, '')}>` : match
+  );
+  
+  const lines: string[] = [];
+  unbracketed.split(/\r?\n/).forEach(line => {
+    const previous = lines[lines.length - 1];
+    if (previous !== undefined && isWrappedContinuation(previous, line, patternType)) {
+      lines[lines.length - 1] = previous + line;
+    } else {
+      lines.push(line);
+    }
+  });
+  
+  return lines.join('\n');
+}
+
+/**
+ * Checks if a line continues a URL that was broken at the end of the previous line
+ */
+function isWrappedContinuation(previous: string, next: string, patternType: string): boolean {
+  // Continuations start right at the line break, without indentation
+  if (!next || /^\s/.test(next)) {
+    return false;
+  }
+  
+  const lastToken = previous.split(/\s+/).pop() || '';
+  if (!/^[(<"']*((https?|file):\/\/|www\.)/i.test(lastToken) || !WRAP_BREAK_CHARS.test(lastToken)) {
+    return false;
+  }
+  
+  // A line that starts with its own URL is a new entry, not a continuation,
+  // and plain words after a trailing slash are more likely prose
+  const firstToken = next.split(/\s+/)[0];
+  if (isValidUrl(firstToken, patternType)) {
+    return false;
+  }
+  
+  return /[\/?&=#%_]/.test(firstToken) || /[?&=%]$/.test(lastToken);
+}
+
+/**
+ * Splits text into URL candidates, keeping the position of each in the text
+ */
+function tokenize(text: string): { text: string; start: number; end: number }[] {
+  const tokens: { text: string; start: number; end: number }[] = [];
+  let match: RegExpExecArray | null;
+  
+  TOKEN_PATTERN.lastIndex = 0;
+  while ((match = TOKEN_PATTERN.exec(text)) !== null) {
+    tokens.push({ text: match[0], start: match.index, end: match.index + match[0].length });
+  }
+  
+  return tokens;
+}
+
+/**
+ * Resolves a relative or protocol-relative reference against the page address
+ * A protocol-relative reference names a new host, so that host must still pass isValidUrl
+ * 
+ * @returns The absolute URL, or null if the candidate isn't a usable relative reference
+ */
+function resolveRelativeUrl(candidate: string, baseUrl: string, patternType: string): string | null {
+  if (!RELATIVE_REFERENCE_PATTERN.test(candidate)) {
+    return null;
+  }
+  
+  let resolved: URL;
+  try {
+    resolved = new URL(candidate, baseUrl);
+  } catch (e) {
+    return null;
+  }
+  
+  if (!/^(https?|file):$/.test(resolved.protocol)) {
+    return null;
+  }
+  
+  if (candidate.startsWith('//') && !isValidUrl(resolved.href, patternType)) {
+    return null;
+  }
+  
+  return resolved.href;
+}
+
+/**
+ * Strips wrapping punctuation from a candidate and balances brackets,
+ * e.g. "(https://en.wikipedia.org/wiki/Foo_(bar))." → "https://en.wikipedia.org/wiki/Foo_(bar)"
+ */
+function cleanCandidate(token: string): string {
+  let candidate = token.replace(LEADING_PUNCTUATION, '');
+  
+  // Drop a label glued to the front of a URL, like "source:https://..."
+  const schemeIndex = candidate.search(/(https?|file):\/\//i);
+  if (schemeIndex > 0 && !/[\/.?=]/.test(candidate.slice(0, schemeIndex))) {
+    candidate = candidate.slice(schemeIndex);
+  }
+  
+  let previousLength: number;
+  do {
+    previousLength = candidate.length;
+    candidate = candidate.replace(TRAILING_PUNCTUATION, '');
+    
+    const lastChar = candidate.charAt(candidate.length - 1);
+    const openingChar = BRACKET_PAIRS[lastChar];
+    if (openingChar && countChar(candidate, lastChar) > countChar(candidate, openingChar)) {
+      candidate = candidate.slice(0, -1);
+    }
+  } while (candidate.length !== previousLength);
+  
+  return candidate;
+}
+
+/**
+ * Counts the occurrences of a single character in a string
  */
-export function extractUrls(text: string, patternType: string = 'standard'): string[] {
-  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line);
-  return lines.filter(line => isValidUrl(line, patternType)).map(normalizeUrl);
+function countChar(text: string, char: string): number {
+  return text.split(char).length - 1;
 } 
\ No newline at end of file
@@ -0,0 +1,193 @@
+/**
+ * Removes tracking parameters from URLs before they are opened
+ *
+ * Rules are plain strings, one per parameter:
+ *   utm_*               - removed on every site (a trailing * matches any suffix)
+ *   fbclid              - removed on every site
+ *   pf_rd_*@amazon.com  - removed only on amazon.com and its subdomains
+ */
+
+// Built-in rules, used until the user edits the list in the popup
+export const DEFAULT_TRACKING_PARAMS: string[] = [
+  // Campaign and analytics parameters
+  'utm_*',
+  '_ga',
+  '_gl',
+  'mkt_tok',
+  'oly_anon_id',
+  'oly_enc_id',
+  'rb_clickid',
+  's_cid',
+  'vero_id',
+  'vero_conv',
+  'wickedid',
+  // Ad click identifiers
+  'fbclid',
+  'gclid',
+  'gclsrc',
+  'dclid',
+  'gbraid',
+  'wbraid',
+  'msclkid',
+  'twclid',
+  'ttclid',
+  'yclid',
+  'igshid',
+  'li_fat_id',
+  // Mailing list parameters
+  'mc_cid',
+  'mc_eid',
+  '_hsenc',
+  '_hsmi',
+  '__hssc',
+  '__hstc',
+  '__hsfp',
+  'hsCtaTracking',
+  // Site-specific parameters
+  'pf_rd_*@amazon.com',
+  'ref_@amazon.com',
+  'ref_src@twitter.com',
+  'ref_url@twitter.com',
+  'si@youtube.com',
+  'feature@youtube.com',
+  'si@open.spotify.com'
+];
+
+/**
+ * Result of cleaning a URL
+ */
+export interface CleanResult {
+  url: string;
+  // Names of the parameters that were removed, in the order they appeared
+  removed: string[];
+}
+
+interface TrackingRule {
+  name: string;
+  isPrefix: boolean;
+  domain: string | null;
+}
+
+/**
+ * Checks if a rule string is well-formed: a parameter name, optionally ending in *,
+ * optionally followed by @domain
+ */
+export function isValidTrackingRule(rule: string): boolean {
+  return parseRule(rule) !== null;
+}
+
+/**
+ * Removes the query parameters matched by the rules from a URL
+ * The rest of the URL is left exactly as it was, including the encoding of other parameters
+ *
+ * @param url The URL to clean
+ * @param rules Tracking parameter rules (see module documentation)
+ */
+export function stripTrackingParams(url: string, rules: string[]): CleanResult {
+  const queryStart = url.indexOf('?');
+  if (queryStart === -1) {
+    return { url, removed: [] };
+  }
+
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.replace(/^www\./, '');
+  } catch (e) {
+    return { url, removed: [] };
+  }
+
+  const activeRules = rules
+    .map(parseRule)
+    .filter((rule): rule is TrackingRule => rule !== null && appliesToHost(rule, hostname));
+  if (activeRules.length === 0) {
+    return { url, removed: [] };
+  }
+
+  const fragmentStart = url.indexOf('#', queryStart);
+  const queryEnd = fragmentStart === -1 ? url.length : fragmentStart;
+  const query = url.slice(queryStart + 1, queryEnd);
+
+  const removed: string[] = [];
+  const kept = query.split('&').filter(pair => {
+    const name = decodeParamName(pair.split('=')[0]);
+    if (name && activeRules.some(rule => matchesName(rule, name))) {
+      removed.push(name);
+      return false;
+    }
+    return true;
+  });
+
+  if (removed.length === 0) {
+    return { url, removed };
+  }
+
+  const remainingQuery = kept.filter(Boolean).join('&');
+  const cleanedUrl = url.slice(0, queryStart) +
+    (remainingQuery ? `?${remainingQuery}` : '') +
+    url.slice(queryEnd);
+
+  return { url: cleanedUrl, removed };
+}
+
+/**
+ * Reduces a URL to a canonical form for spotting duplicates:
+ * the fragment, trailing slashes and the tracking parameters matched by the rules are ignored
+ *
+ * @param url The URL to canonicalize
+ * @param rules Tracking parameter rules to ignore (pass [] to keep every parameter)
+ * @returns The canonical form, or the URL itself if it can't be parsed
+ */
+export function getCanonicalUrl(url: string, rules: string[]): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(stripTrackingParams(url, rules).url);
+  } catch (e) {
+    return url;
+  }
+
+  parsed.hash = '';
+  parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/';
+  return parsed.href;
+}
+
+/**
+ * Parses a rule string, or returns null if it is malformed
+ */
+function parseRule(rule: string): TrackingRule | null {
+  const match = /^([^\s@*=&#?]+)(\*)?(?:@([a-z0-9.-]+))?$/i.exec(rule.trim());
+  if (!match) {
+    return null;
+  }
+
+  return {
+    name: match[1].toLowerCase(),
+    isPrefix: !!match[2],
+    domain: match[3] ? match[3].toLowerCase().replace(/^www\./, '') : null
+  };
+}
+
+/**
+ * Checks if a rule applies to a hostname (the domain itself or any subdomain)
+ */
+function appliesToHost(rule: TrackingRule, hostname: string): boolean {
+  return !rule.domain || hostname === rule.domain || hostname.endsWith('.' + rule.domain);
+}
+
+/**
+ * Checks if a rule matches a parameter name (case-insensitive)
+ */
+function matchesName(rule: TrackingRule, name: string): boolean {
+  const lowerName = name.toLowerCase();
+  return rule.isPrefix ? lowerName.startsWith(rule.name) : lowerName === rule.name;
+}
+
+/**
+ * Decodes a query parameter name, falling back to the raw text if it is malformed
+ */
+function decodeParamName(name: string): string {
+  try {
+    return decodeURIComponent(name.replace(/\+/g, ' '));
+  } catch (e) {
+    return name;
+  }
+}
@@ -1,11 +1,28 @@
 const path = require('path');
 const CopyPlugin = require('copy-webpack-plugin');
 
-module.exports = {
+// Permissions only Firefox knows, added to its manifest alone (Chrome reports them as unknown)
+const FIREFOX_PERMISSIONS = ['contextualIdentities', 'cookies'];
+
+/**
+ * Adapt manifest.json, written for Chrome, to the browser being built for
+ */
+function buildManifest(content, browser) {
+  const manifest = JSON.parse(content.toString());
+  if (browser === 'firefox') {
+    manifest.permissions = [...manifest.permissions, ...FIREFOX_PERMISSIONS];
+  }
+  return JSON.stringify(manifest, null, 2);
+}
+
+// Builds for Chrome by default; `--env browser=firefox` builds for Firefox
+module.exports = (env = {}) => ({
   entry: {
     background: './background.ts',
     contentScript: './contentScript.ts',
-    'popup/popup': './popup/popup.ts'
+    'popup/popup': './popup/popup.ts',
+    'confirm/confirm': './confirm/confirm.ts',
+    'offscreen/offscreen': './offscreen/offscreen.ts'
   },
   module: {
     rules: [
@@ -33,10 +50,13 @@ module.exports = {
   plugins: [
     new CopyPlugin({
       patterns: [
-        { from: 'manifest.json', to: 'manifest.json' },
+        { from: 'manifest.json', to: 'manifest.json', transform: content => buildManifest(content, env.browser) },
         { from: 'icons', to: 'icons', noErrorOnMissing: true },
         { from: 'popup/popup.html', to: 'popup/popup.html' },
-        { from: 'popup/popup.css', to: 'popup/popup.css' }
+        { from: 'popup/popup.css', to: 'popup/popup.css' },
+        { from: 'confirm/confirm.html', to: 'confirm/confirm.html' },
+        { from: 'confirm/confirm.css', to: 'confirm/confirm.css' },
+        { from: 'offscreen/offscreen.html', to: 'offscreen/offscreen.html' }
       ],
     }),
   ],
@@ -49,4 +69,4 @@ module.exports = {
   },
   // Ensures proper source mapping for debugging
   devtool: process.env.NODE_ENV === 'production' ? false : 'inline-source-map',
-}; 
\ No newline at end of file
+}); 
\ No newline at end of file